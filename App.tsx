@@ -1,212 +1,73 @@
 
 import React, { useEffect, useState, useMemo, useRef } from 'react';
 import { Analytics } from "@vercel/analytics/react";
-import { MappedProduct, BulkSearchResult, QuotationMap } from './types';
-import { fetchAndParseProducts } from './services/csvService';
-import { extractShoppingItems, ExtractedItem } from './services/geminiService';
+import { MappedProduct, BulkSearchResult, QuotationMap, CatalogSource, ExtractedItem } from './types';
+import { CatalogLoadResult, SourceLoadReport } from './services/csvService';
+import {
+  EXTRACTED_BY_LABELS,
+  EXTRACTED_BY_TITLES,
+  EXTRACTION_MODE_LABELS,
+  ExtractionMode,
+  RequestExtraction,
+  extractRequestItems,
+  loadExtractionMode,
+  saveExtractionMode,
+} from './services/extractionService';
+import { normalizeText } from './services/matchScorer';
+import { createMatchingClient, MatchingClient } from './services/matchingClient';
+import { buildLexicon, loadThesaurusOverrides, saveThesaurusOverrides, ThesaurusOverrides } from './services/thesaurusService';
+import { AliasStore, forgetAlias, loadAliases, rememberAlias, saveAliases } from './services/aliasService';
+import { loadCatalogSources, saveCatalogSources } from './services/catalogSourceService';
+import { analyzeCatalogHealth } from './services/catalogHealthService';
+import { CatalogDiff, clearCatalogDiff, recordCatalogLoad } from './services/catalogSnapshotService';
+import { readCachedCatalog, refreshCatalog } from './services/catalogCacheService';
+import { LINE_STATUS_LABELS, allocatedQuantity, allocationsTotal, autoSelectScoreOf, getLineAllocations, getLineStatus } from './services/quotationLineService';
+import { ScoringProfile, loadScoringProfile, saveScoringProfile } from './services/scoringProfile';
+import { downloadCsv, formatDecimal } from './services/fileExport';
+import { downloadQuotationXlsx } from './services/quotationXlsxService';
+import { QuotationSnapshot, SavedQuotation, createQuotation, loadVersion, saveQuotationVersion } from './services/quotationService';
 import ProductTable from './components/ProductTable';
+import ThesaurusEditor from './components/ThesaurusEditor';
+import AliasManager from './components/AliasManager';
+import CatalogSourcesPanel from './components/CatalogSourcesPanel';
+import CatalogHealthPanel from './components/CatalogHealthPanel';
+import CatalogChangesPanel from './components/CatalogChangesPanel';
+import CatalogStatusBanner from './components/CatalogStatusBanner';
+import QuotationLibrary from './components/QuotationLibrary';
+import BasketOptimizerPanel from './components/BasketOptimizerPanel';
+import PurchaseOrdersPanel from './components/PurchaseOrdersPanel';
+import QuotationPdfPanel from './components/QuotationPdfPanel';
+import RequestImportPanel from './components/RequestImportPanel';
+import LlmDebugPanel from './components/LlmDebugPanel';
+import ScoringProfilePanel from './components/ScoringProfilePanel';
+import MissingLinesBanner from './components/MissingLinesBanner';
+import CatalogBrowser from './components/CatalogBrowser';
+import ResultFiltersBar from './components/ResultFiltersBar';
+import { EMPTY_LINE_FILTERS, LineFilters, countFacets, describeLine, hasLineFilters, matchesLineFilters } from './services/lineFilterService';
+import { SourceLine } from './services/llmService';
 
+// Other search results kept on a line added from the catalog browser
+const CATALOG_LINE_ALTERNATIVES = 9;
 
+// Counts used by the completion toast
+const computeMatchStats = (results: BulkSearchResult[]) => {
+  let exact = 0;
+  let similar = 0;
+  let notFound = 0;
 
-
-// Expanded Thesaurus for better synonym matching
-const medicalThesaurus: Record<string, string[]> = {
-  'afastador': ['afastador', 'afast', 'retractor', 'afast.'],
-  'pinca': ['pinca', 'pinça', 'forceps', 'clamp', 'pinca.', 'pinça.'],
-  'tesoura': ['tesoura', 'tes', 'scissors', 'tes.'],
-  'porta': ['porta', 'needle', 'holder', 'porta-agulha'],
-  'cabo': ['cabo', 'handle'],
-  'fio': ['fio', 'suture', 'wire'],
-  'volkmann': ['volkmann', 'volkman', 'wulkman', 'vulkman', 'vulkmann', 'wolkman', 'wolkmann'],
-  'kocher': ['kocher', 'kocker', 'cocher', 'cocker', 'kocher.'],
-  'senn': ['senn', 'sen', 'semm', 'sem'],
-  'mueller': ['mueller', 'muller', 'mulir', 'muler'],
-  'metzenbaum': ['metzenbaum', 'metz', 'metzebaum'],
-  'mayo': ['mayo', 'maio'],
-  'kelly': ['kelly', 'kely', 'keli'],
-  'clipe': ['clipe', 'clips', 'clip'],
-  'gancho': ['gancho', 'ganchos', 'garra', 'garras', 'dente', 'dentes'],
-  'mosquito': ['mosquito', 'halstead', 'halsted'],
-  'bisturi': ['bisturi', 'scalpel', 'lâmina', 'lamina'],
-  'adson': ['adson', 'adsson'],
-  'allis': ['allis', 'alis'],
-  'babcock': ['babcock', 'babcok'],
-  'backhaus': ['backhaus', 'backaus'],
-  'gelpi': ['gelpi', 'gelpy', 'golpi'],
-  'weitlaner': ['weitlaner', 'weitlaner', 'westphal'],
-  'mixter': ['mixter', 'mixture'],
-  'crile': ['crile', 'crille'],
-  'rochester': ['rochester'],
-  'pean': ['pean'],
-  'guthrie': ['guthrie', 'gunthrie', 'gutrie'],
-  'cizalha': ['cizalha', 'cisalha', 'alicate'],
-  'liston': ['liston', 'listom'],
-  'farabeuf': ['farabeuf', 'farabef', 'farabauf'],
-  'yankauer': ['yankauer', 'yankau', 'yancauer'],
-  'hartmann': ['hartmann', 'hartman'],
-  'bunt': ['bunt', 'bunti'],
-  'hegar': ['hegar', 'hegger'],
-};
-
-// Stop words - terms that add very little value to search
-const STOP_WORDS = new Set([
-  'de', 'do', 'da', 'com', 'para', 'em', 'cm', 'mm', 'ml', 'unid', 'cx', 'pc', 'pç', 'jogo', 'kit', 'conjunto'
-]);
-
-// Category terms - important for type matching, but less specific than names like "Volkmann"
-const CATEGORY_TERMS = new Set([
-  'afastador', 'pinca', 'pinça', 'tesoura', 'porta', 'cabo', 'fio', 'lamina', 'lâmina', 
-  'bisturi', 'agulha', 'clip', 'clipe', 'clips', 'broca', 'raspador', 'elevador', 'descolador', 
-  'valva', 'especulo', 'espéculo', 'aspirador', 'canula', 'cânula', 'cesta', 'caixa', 
-  'cizalha', 'gancho', 'garra', 'dente', 'sonda', 'cateter', 'drill', 'perfurador', 'abre', 'boca'
-]);
-
-const MODIFIER_TERMS = new Set([
-  'adulto', 'infantil', 'pediatrico', 'pediátrico', 'reto', 'reta', 'curvo', 'curva', 
-  'longo', 'longa', 'curto', 'curta', 'flexivel', 'flexível', 'rigido', 'rígido', 
-  'direito', 'esquerdo', 'direita', 'esquerda', 'maior', 'menor', 'médio', 'medio'
-]);
-
-const normalizeText = (text: string): string => {
-  return text.toLowerCase()
-    .normalize("NFD")
-    .replace(/[\u0300-\u036f]/g, "")
-    .replace(/[^a-z0-9]/g, " ")
-    .replace(/\s+/g, " ")
-    .trim();
-};
-
-// Standard Levenshtein implementation
-const levenshtein = (a: string, b: string): number => {
-  if (a.length === 0) return b.length;
-  if (b.length === 0) return a.length;
-  
-  const matrix = [];
-
-  for (let i = 0; i <= b.length; i++) {
-    matrix[i] = [i];
-  }
-
-  for (let j = 0; j <= a.length; j++) {
-    matrix[0][j] = j;
-  }
-
-  for (let i = 1; i <= b.length; i++) {
-    for (let j = 1; j <= a.length; j++) {
-      if (b.charAt(i - 1) === a.charAt(j - 1)) {
-        matrix[i][j] = matrix[i - 1][j - 1];
-      } else {
-        matrix[i][j] = Math.min(
-          matrix[i - 1][j - 1] + 1,
-          matrix[i][j - 1] + 1,
-          matrix[i - 1][j] + 1
-        );
-      }
-    }
-  }
-
-  return matrix[b.length][a.length];
-};
-
-const calculateMatchScore = (product: MappedProduct, query: string): number => {
-  const normalizedQuery = normalizeText(query);
-  const normalizedTitle = normalizeText(product.title);
-  
-  const queryTokens = normalizedQuery.split(" ").filter(t => t.length > 0);
-  const productTokens = normalizedTitle.split(" ");
-  
-  if (queryTokens.length === 0) return 0;
-
-  let totalScore = 0;
-  let exactTokenMatches = 0;
-
-  // 1. Check if all important tokens are present (Boost for "Perfect" matches)
-  const allImportantTokensPresent = queryTokens.every(qToken => {
-    // Stop words don't break "perfect match" if missing
-    if (STOP_WORDS.has(qToken)) return true;
-    if (qToken.length < 3 && !isNaN(Number(qToken))) return true; // Ignore small numbers for this check
-    
-    const synonyms = medicalThesaurus[qToken] || [qToken];
-    return synonyms.some(syn => normalizedTitle.includes(syn));
-  });
-
-  if (allImportantTokensPresent) totalScore += 6000;
-
-  // 2. Token Matching with Weights
-  queryTokens.forEach(qToken => {
-    let bestTokenScore = 0;
-    
-    // Determine Weight
-    let tokenWeight = 0;
-    
-    if (STOP_WORDS.has(qToken)) {
-      tokenWeight = 50; // Minimal weight for connectors/units
-    } else if (MODIFIER_TERMS.has(qToken)) {
-      tokenWeight = 500; // Modifiers
-    } else if (CATEGORY_TERMS.has(qToken)) {
-      tokenWeight = 2500; // Significant weight for Product Type (e.g., "Clips")
-    } else if (!isNaN(Number(qToken))) {
-      tokenWeight = 500; // Medium weight for numbers
+  results.forEach(res => {
+    if (!res.learnedProductId && (res.products.length === 0 || (res.products[0].matchScore || 0) < autoSelectScoreOf(res))) {
+      notFound++;
     } else {
-      tokenWeight = 4500; // High weight for Specific Names (e.g. "Volkmann", "Mayo")
-    }
-
-    const synonyms = medicalThesaurus[qToken] || [qToken];
-
-    // Check against all product tokens
-    for (const pToken of productTokens) {
-      // A. Exact Match or Synonym Match
-      if (synonyms.some(s => s === pToken)) {
-        bestTokenScore = Math.max(bestTokenScore, 1.0);
-        continue;
-      }
-
-      // B. Prefix Match (e.g. "Volk" matches "Volkmann") - only for specific terms
-      if (tokenWeight > 1000 && qToken.length > 3 && pToken.startsWith(qToken)) {
-         bestTokenScore = Math.max(bestTokenScore, 0.9);
-         continue;
-      }
-
-      // C. Fuzzy Match (Levenshtein)
-      // Only for non-stop words longer than 3 chars
-      if (tokenWeight > 100 && qToken.length > 3) {
-        const dist = levenshtein(qToken, pToken);
-        const threshold = qToken.length > 6 ? 2 : 1;
-        
-        if (dist <= threshold) {
-          // Score degrades with distance
-          const fuzzyScore = 1.0 - (dist * 0.2); 
-          bestTokenScore = Math.max(bestTokenScore, fuzzyScore);
-        }
+      const p = res.products[0];
+      if (normalizeText(res.term) === normalizeText(p.title)) {
+        exact++;
+      } else {
+        similar++;
       }
     }
-
-    if (bestTokenScore > 0) {
-      totalScore += (bestTokenScore * tokenWeight);
-      if (bestTokenScore === 1.0) exactTokenMatches++;
-    }
   });
-
-  // 3. Anchor Bias (First word matches)
-  const anchorToken = queryTokens[0];
-  const anchorSynonyms = medicalThesaurus[anchorToken] || [anchorToken];
-  // Check if product title starts with anchor or contains anchor near start
-  const anchorIndex = productTokens.findIndex(p => anchorSynonyms.includes(p));
-  if (anchorIndex === 0) {
-    totalScore += 2000;
-  } else if (anchorIndex > 0) {
-    totalScore += 1000;
-  }
-
-  // 4. Accessory Penalty
-  // If product is "Cabo para..." but query didn't ask for "Cabo"
-  const isCaboQuery = anchorSynonyms.includes('cabo') || anchorSynonyms.includes('suporte');
-  const productIsAccessory = productTokens.includes('cabo') || productTokens.includes('suporte');
-  if (productIsAccessory && !isCaboQuery) {
-    totalScore -= 3000;
-  }
-
-  return totalScore;
+  return { exact, similar, notFound };
 };
 
 const App: React.FC = () => {
@@ -214,108 +75,252 @@ const App: React.FC = () => {
   const [bulkResults, setBulkResults] = useState<BulkSearchResult[]>([]);
   const [quotationState, setQuotationState] = useState<QuotationMap>({});
   const [loading, setLoading] = useState(true);
+  const [catalogLoading, setCatalogLoading] = useState(false);
+  const [catalogSources, setCatalogSources] = useState<CatalogSource[]>(loadCatalogSources);
+  const [showSources, setShowSources] = useState(false);
+  const [sourcesSaveFailed, setSourcesSaveFailed] = useState(false);
+  const [catalogReports, setCatalogReports] = useState<SourceLoadReport[]>([]);
+  const [catalogRefreshedAt, setCatalogRefreshedAt] = useState<number | null>(null);
+  const [showHealth, setShowHealth] = useState(false);
+  const [catalogDiff, setCatalogDiff] = useState<CatalogDiff | null>(null);
+  const [showChanges, setShowChanges] = useState(false);
   const [isSearching, setIsSearching] = useState(false);
   const [expandedRows, setExpandedRows] = useState<number[]>([]);
   const [availableSuppliers, setAvailableSuppliers] = useState<string[]>([]);
   const [selectedSupplierFilter, setSelectedSupplierFilter] = useState<string>('Todos os fornecedores');
+  const [selectedSourceFilter, setSelectedSourceFilter] = useState<string>('Todas as fontes');
   const [queryInput, setQueryInput] = useState('');
+  const [extractionMode, setExtractionMode] = useState<ExtractionMode>(loadExtractionMode);
   const [showToast, setShowToast] = useState(false);
-  const [toastStats, setToastStats] = useState({ exact: 0, similar: 0, notFound: 0 });
+  const [toastStats, setToastStats] = useState({ exact: 0, similar: 0, notFound: 0, cancelled: false });
+  const [matchProgress, setMatchProgress] = useState<{ processed: number; total: number } | null>(null);
+  const [thesaurusOverrides, setThesaurusOverrides] = useState<ThesaurusOverrides>(loadThesaurusOverrides);
+  const [showThesaurus, setShowThesaurus] = useState(false);
+  const [aliases, setAliases] = useState<AliasStore>(loadAliases);
+  const [showAliases, setShowAliases] = useState(false);
+  const [currentQuote, setCurrentQuote] = useState<SavedQuotation | null>(null);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [libraryRevision, setLibraryRevision] = useState(0);
+  const [showOptimizer, setShowOptimizer] = useState(false);
+  const [showPurchaseOrders, setShowPurchaseOrders] = useState(false);
+  const [showPdf, setShowPdf] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [showLlmDebug, setShowLlmDebug] = useState(false);
+  const [scoringProfile, setScoringProfile] = useState<ScoringProfile>(loadScoringProfile);
+  const [showScoring, setShowScoring] = useState(false);
+  const [extractProgress, setExtractProgress] = useState<{ done: number; total: number } | null>(null);
+  const [missingLines, setMissingLines] = useState<SourceLine[]>([]);
+  const [showBrowser, setShowBrowser] = useState(false);
+  const [lineFilters, setLineFilters] = useState<LineFilters>(EMPTY_LINE_FILTERS);
+  const [showLineFilters, setShowLineFilters] = useState(false);
+  const queryInputRef = useRef<HTMLTextAreaElement>(null);
+  const matchingClientRef = useRef<MatchingClient | null>(null);
+  const cancelMatchingRef = useRef<(() => void) | null>(null);
+  const catalogLoadSeqRef = useRef(0);
 
   const currencyFormatter = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' });
 
   useEffect(() => {
-    const init = async () => {
-      try {
-        const data = await fetchAndParseProducts();
-        if (data.length > 0) {
-          setAllProducts(data);
-          const suppliers = Array.from(new Set(data.map(p => p.supplier))).sort();
-          setAvailableSuppliers(suppliers);
-        }
-      } catch (err) {
-        console.error("Initialization error:", err);
-      } finally {
-        setLoading(false); 
-      }
+    const client = createMatchingClient();
+    matchingClientRef.current = client;
+    return () => {
+      matchingClientRef.current = null;
+      client.terminate();
     };
-    init();
   }, []);
 
-  const handleSearch = async () => {
-    if (!queryInput.trim() || isSearching) return;
+  const lexicon = useMemo(() => buildLexicon(thesaurusOverrides), [thesaurusOverrides]);
+
+  // Persist the user's dictionary and hand the merged lexicon to the worker
+  useEffect(() => {
+    saveThesaurusOverrides(thesaurusOverrides);
+    matchingClientRef.current?.setLexicon(lexicon);
+  }, [thesaurusOverrides, lexicon]);
+
+  useEffect(() => {
+    saveAliases(aliases);
+    matchingClientRef.current?.setAliases(aliases);
+  }, [aliases]);
+
+  useEffect(() => {
+    saveScoringProfile(scoringProfile);
+    matchingClientRef.current?.setProfile(scoringProfile);
+  }, [scoringProfile]);
+
+  const applyCatalog = ({ products: data, reports }: CatalogLoadResult) => {
+    setAllProducts(data);
+    setCatalogReports(reports);
+    // The worker indexes the catalog once so each search only scores candidates
+    matchingClientRef.current?.setCatalog(data);
+    const suppliers = Array.from(new Set(data.map(p => p.supplier))).sort();
+    setAvailableSuppliers(suppliers);
+  };
+
+  // Stale-while-revalidate: show the cached catalog at once, then swap in the fresh one
+  const loadCatalog = async (sources: CatalogSource[]) => {
+    const seq = ++catalogLoadSeqRef.current;
+    setCatalogLoading(true);
+    try {
+      const cached = await readCachedCatalog(sources);
+      if (cached && seq === catalogLoadSeqRef.current) {
+        applyCatalog(cached);
+        setLoading(false);
+      }
+
+      const result = await refreshCatalog(sources);
+      // A newer load started while this one was fetching
+      if (seq !== catalogLoadSeqRef.current) return;
+      applyCatalog(result);
+      setCatalogRefreshedAt(Date.now());
+      // Sources that failed keep their last good snapshot instead of showing as removed
+      setCatalogDiff(recordCatalogLoad(result.products, result.reports.filter(r => !r.error).map(r => r.sourceId)));
+    } catch (err) {
+      console.error("Initialization error:", err);
+    } finally {
+      if (seq === catalogLoadSeqRef.current) {
+        setLoading(false);
+        setCatalogLoading(false);
+      }
+    }
+  };
+
+  useEffect(() => {
+    setSourcesSaveFailed(!saveCatalogSources(catalogSources));
+    loadCatalog(catalogSources);
+  }, [catalogSources]);
+
+  const availableSources = useMemo(() => {
+    const names = new Map<string, string>();
+    allProducts.forEach(p => { if (!names.has(p.sourceId)) names.set(p.sourceId, p.sourceName); });
+    return Array.from(names, ([id, name]) => ({ id, name }));
+  }, [allProducts]);
+
+  const catalogChangeCount = catalogDiff ? catalogDiff.added.length + catalogDiff.removed.length + catalogDiff.repriced.length : 0;
+
+  const healthReport = useMemo(() => analyzeCatalogHealth(allProducts), [allProducts]);
+
+  const quotedProductIds = useMemo(() => {
+    const ids = new Set<string>();
+    bulkResults.forEach(res => res.products.forEach(p => ids.add(p.id)));
+    return ids;
+  }, [bulkResults]);
+
+  // Starts a new quotation; `getItems` produces the requested lines
+  const runSearch = async (getItems: () => Promise<RequestExtraction>) => {
+    if (isSearching) return;
     setIsSearching(true);
+    setBulkResults([]);
     setQuotationState({});
     setExpandedRows([]);
     setShowToast(false);
-    
-    try {
-      const extractedItems = await extractShoppingItems(queryInput);
-      
-      const results: BulkSearchResult[] = extractedItems.map((item, index) => {
-        // Logic to extract quantity from the end of the string
-        let searchName = item.name;
-        let finalQuantity = item.quantity;
-
-        // Regex: Matches anything followed by space and a number at the end of the string
-        // Ex: "Afastador Wolkman 3 Ganchos 2" -> Match group 1: "Afastador Wolkman 3 Ganchos", group 2: "2"
-        const qtyMatch = searchName.match(/^(.*?)\s+(\d+)$/);
-        
-        if (qtyMatch) {
-            searchName = qtyMatch[1].trim();
-            finalQuantity = parseInt(qtyMatch[2], 10);
-        }
+    setMatchProgress(null);
+    setExtractProgress(null);
+    setMissingLines([]);
+    setLineFilters(EMPTY_LINE_FILTERS);
+    // A new list is not a version of the quote that was open
+    setCurrentQuote(null);
 
-        const matches = allProducts
-          .map(p => ({ ...p, matchScore: calculateMatchScore(p, searchName) }))
-          .filter(p => (p.matchScore || 0) >= 2500)
-          .sort((a, b) => (b.matchScore || 0) - (a.matchScore || 0))
-          .slice(0, 500);
+    try {
+      const { items: extractedItems, missingLines: missing } = await getItems();
+      setExtractProgress(null);
+      setMissingLines(missing);
+      const client = matchingClientRef.current;
+      if (!client) throw new Error("Matching worker not available");
 
-        if (matches.length > 0 && (matches[0].matchScore || 0) >= 3000) {
-          setQuotationState(prev => ({ ...prev, [index]: { [matches[0].id]: finalQuantity } }));
-        }
-        return { 
-          term: searchName, // Use the cleaned name for display
-          originalTerm: item.name, 
-          products: matches, 
-          detectedQuantity: finalQuantity // Use extracted quantity
-        };
-      });
+      const results: BulkSearchResult[] = [];
+      const scoring = { profile: scoringProfile, thesaurus: thesaurusOverrides };
+      setMatchProgress({ processed: 0, total: extractedItems.length });
 
-      setBulkResults(results);
-
-      // Calculate stats for toast
-      let exact = 0;
-      let similar = 0;
-      let notFound = 0;
-
-      results.forEach(res => {
-        if (res.products.length === 0 || (res.products[0].matchScore || 0) < 3000) {
-          notFound++;
-        } else {
-          const p = res.products[0];
-          if (normalizeText(res.term) === normalizeText(p.title)) {
-            exact++;
-          } else {
-            similar++;
-          }
+      cancelMatchingRef.current = client.run(extractedItems, {
+        onResults: (batch, processed, total) => {
+          const autoSelections: QuotationMap = {};
+          const scored = batch.map(({ index, result }) => ({ index, result: { ...result, scoredWith: { ...scoring, query: result.term } } }));
+          scored.forEach(({ index, result }) => {
+            results[index] = result;
+            if (result.learnedProductId) {
+              autoSelections[index] = { [result.learnedProductId]: result.detectedQuantity };
+            } else if (result.products.length > 0 && (result.products[0].matchScore || 0) >= autoSelectScoreOf(result)) {
+              autoSelections[index] = { [result.products[0].id]: result.detectedQuantity };
+            }
+          });
+          setBulkResults(prev => [...prev, ...scored.map(r => r.result)]);
+          setQuotationState(prev => ({ ...prev, ...autoSelections }));
+          setMatchProgress({ processed, total });
+        },
+        onDone: (cancelled) => {
+          cancelMatchingRef.current = null;
+          setToastStats({ ...computeMatchStats(results), cancelled });
+          setShowToast(true);
+          setIsSearching(false);
+        },
+        onError: (err) => {
+          cancelMatchingRef.current = null;
+          console.error("Matching failed:", err);
+          setIsSearching(false);
         }
       });
-      setToastStats({ exact, similar, notFound });
-      setShowToast(true);
-
     } catch (err) {
       console.error("Search failed:", err);
-    } finally {
       setIsSearching(false);
     }
   };
 
+  const searchText = (text: string) =>
+    runSearch(() => extractRequestItems(text, extractionMode, (done, total) => setExtractProgress({ done, total })));
+
+  const handleSearch = () => {
+    if (!queryInput.trim()) return;
+    searchText(queryInput);
+  };
+
+  // The catalog search bar's list tab runs the same flow as the text box
+  const handleBrowserBulkSearch = (text: string) => {
+    setQueryInput(text);
+    setShowBrowser(false);
+    searchText(text);
+  };
+
+  // Imported files already have their columns picked, so extraction is skipped
+  const handleImportItems = (items: ExtractedItem[]) => {
+    setQueryInput(items.map(item => `${item.name}  ${item.quantity}`).join('\n'));
+    setShowImport(false);
+    runSearch(async () => ({ items, missingLines: [] }));
+  };
+
+  const handleExtractionModeChange = (mode: ExtractionMode) => {
+    setExtractionMode(mode);
+    saveExtractionMode(mode);
+  };
+
+  const handleRequestFileDrop = (e: React.DragEvent) => {
+    const file = e.dataTransfer.files[0];
+    if (!file) return;
+    e.preventDefault();
+    setImportFile(file);
+    setShowImport(true);
+  };
+
+  // Selects a pasted line so it can be fixed in place
+  const handleShowLine = (line: number) => {
+    const textarea = queryInputRef.current;
+    if (!textarea) return;
+    const lines = textarea.value.split('\n');
+    const start = lines.slice(0, line - 1).reduce((sum, l) => sum + l.length + 1, 0);
+    textarea.focus();
+    textarea.setSelectionRange(start, start + (lines[line - 1] || '').length);
+    // Roughly scroll the line into view; the textarea has no per-line API
+    textarea.scrollTop = Math.max(0, (line - 3) * (textarea.scrollHeight / Math.max(1, lines.length)));
+  };
+
+  const handleCancelSearch = () => {
+    cancelMatchingRef.current?.();
+  };
+
   const handleQuantityChange = (termIndex: number, productId: string, newQty: number) => {
     setQuotationState(prev => ({
       ...prev,
-      [termIndex]: { [productId]: Math.max(1, newQty) }
+      [termIndex]: { ...prev[termIndex], [productId]: Math.max(1, newQty) }
     }));
   };
 
@@ -346,69 +351,197 @@ const App: React.FC = () => {
   };
 
   const filteredResults = useMemo(() => {
-    if (selectedSupplierFilter === 'Todos os fornecedores') return bulkResults;
+    const allSuppliers = selectedSupplierFilter === 'Todos os fornecedores';
+    const allSources = selectedSourceFilter === 'Todas as fontes';
+    if (allSuppliers && allSources) return bulkResults;
     return bulkResults.map(res => ({
       ...res,
-      products: res.products.filter(p => p.supplier === selectedSupplierFilter)
+      products: res.products.filter(p =>
+        (allSuppliers || p.supplier === selectedSupplierFilter) && (allSources || p.sourceId === selectedSourceFilter)
+      )
     }));
-  }, [bulkResults, selectedSupplierFilter]);
+  }, [bulkResults, selectedSupplierFilter, selectedSourceFilter]);
+
+  const lineFacts = useMemo(
+    () => filteredResults.map((result, idx) => describeLine(idx, result, getLineAllocations(result, quotationState[idx]), scoringProfile)),
+    [filteredResults, quotationState, scoringProfile]
+  );
+
+  const facetCounts = useMemo(() => countFacets(lineFacts, lineFilters), [lineFacts, lineFilters]);
+
+  // Line filters only hide rows; indexes, selections and exports are untouched
+  const visibleLines = useMemo(
+    () => new Set(lineFacts.filter(facts => matchesLineFilters(facts, lineFilters)).map(facts => facts.index)),
+    [lineFacts, lineFilters]
+  );
+
+  // Opens the first quotation line listing the product and scrolls to it
+  const handleShowInQuotation = (productId: string) => {
+    const idx = filteredResults.findIndex(res => res.products.some(p => p.id === productId));
+    if (idx === -1) return;
+    if (!visibleLines.has(idx)) setLineFilters(EMPTY_LINE_FILTERS);
+    setExpandedRows(prev => (prev.includes(idx) ? prev : [...prev, idx]));
+    document.getElementById(`result-row-${idx}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
 
   const grandTotal = useMemo(() => {
-    return filteredResults.reduce((total, result, idx) => {
-        const selectedIds = Object.keys(quotationState[idx] || {});
-        const selectedId = selectedIds[0];
-        
-        const activeId = (selectedId && result.products.some(p => p.id === selectedId)) 
-            ? selectedId 
-            : (result.products.length > 0 && (result.products[0].matchScore || 0) >= 3000 ? result.products[0].id : null);
-
-        const p = activeId ? result.products.find(prod => prod.id === activeId) : null;
-        const qty = activeId ? (quotationState[idx]?.[activeId] || result.detectedQuantity) : result.detectedQuantity;
-        return total + ((p?.price || 0) * qty);
-    }, 0);
+    return filteredResults.reduce((total, result, idx) =>
+      total + allocationsTotal(getLineAllocations(result, quotationState[idx])), 0);
   }, [filteredResults, quotationState]);
 
+  const visibleTotal = useMemo(() => {
+    return filteredResults.reduce((total, result, idx) =>
+      visibleLines.has(idx) ? total + allocationsTotal(getLineAllocations(result, quotationState[idx])) : total, 0);
+  }, [filteredResults, quotationState, visibleLines]);
+
+  const allocationSummary = useMemo(() => {
+    let resolved = 0;
+    let mismatched = 0;
+    filteredResults.forEach((result, idx) => {
+      const allocations = getLineAllocations(result, quotationState[idx]);
+      if (allocations.length === 0) return;
+      resolved++;
+      if (allocatedQuantity(allocations) !== result.detectedQuantity) mismatched++;
+    });
+    return { resolved, mismatched };
+  }, [filteredResults, quotationState]);
+
+  // Adds or removes a product from a line; a line can be split across several products
+  const handleToggleProduct = (termIndex: number, productId: string) => {
+    const result = filteredResults[termIndex];
+    const selection = quotationState[termIndex];
+    const current = getLineAllocations(result, selection);
+    // Start from the stored entry so products hidden by a filter stay allocated
+    const next: Record<string, number> = { ...selection };
+    current.forEach(a => { next[a.product.id] = a.quantity; });
+
+    if (current.some(a => a.product.id === productId)) {
+      delete next[productId];
+    } else {
+      next[productId] = Math.max(1, result.detectedQuantity - allocatedQuantity(current));
+      // Remember the manual pick for the next quote with the same line
+      const picked = result.products.find(prod => prod.id === productId);
+      if (picked) setAliases(prev => rememberAlias(prev, result.term, picked));
+    }
+    setQuotationState(prev => ({ ...prev, [termIndex]: next }));
+  };
+
+  // A catalog pick becomes its own line, with the other search results as alternatives;
+  // adding the same product again adds one unit to that line
+  const handleAddFromCatalog = (product: MappedProduct, query: string, results: MappedProduct[], scoredQuery: string) => {
+    const existing = bulkResults.findIndex(r => r.extractedBy === 'catalog' && r.products[0]?.id === product.id);
+    if (existing !== -1) {
+      setBulkResults(prev => prev.map((r, i) => (i === existing ? { ...r, detectedQuantity: r.detectedQuantity + 1 } : r)));
+      setQuotationState(prev => ({ ...prev, [existing]: { ...prev[existing], [product.id]: (prev[existing]?.[product.id] || 0) + 1 } }));
+      return;
+    }
+    const index = bulkResults.length;
+    const line: BulkSearchResult = {
+      term: product.title,
+      originalTerm: query,
+      products: [product, ...results.filter(p => p.id !== product.id).slice(0, CATALOG_LINE_ALTERNATIVES)],
+      detectedQuantity: 1,
+      extractedBy: 'catalog',
+      autoSelectScore: scoringProfile.autoSelectScore,
+      scoredWith: { query: scoredQuery, profile: scoringProfile, thesaurus: thesaurusOverrides },
+    };
+    setBulkResults(prev => [...prev, line]);
+    setQuotationState(prev => ({ ...prev, [index]: { [product.id]: 1 } }));
+  };
+
+  const quotedQuantities = useMemo(() => {
+    const quantities = new Map<string, number>();
+    bulkResults.forEach((result, idx) => {
+      getLineAllocations(result, quotationState[idx]).forEach(({ product, quantity }) => {
+        quantities.set(product.id, (quantities.get(product.id) || 0) + quantity);
+      });
+    });
+    return quantities;
+  }, [bulkResults, quotationState]);
+
+  const handleApplyOptimization = (picks: { index: number; productId: string; quantity: number }[]) => {
+    setQuotationState(prev => {
+      const next = { ...prev };
+      picks.forEach(({ index, productId, quantity }) => { next[index] = { [productId]: quantity }; });
+      return next;
+    });
+    setShowOptimizer(false);
+  };
+
+  const buildSnapshot = (): QuotationSnapshot => ({
+    queryInput,
+    results: bulkResults,
+    selections: quotationState,
+    supplierFilter: selectedSupplierFilter,
+    sourceFilter: selectedSourceFilter,
+  });
+
+  const handleSaveNewQuote = async (name: string, customer: string) => {
+    setCurrentQuote(await createQuotation(name, customer, buildSnapshot(), grandTotal));
+    setLibraryRevision(prev => prev + 1);
+  };
+
+  const handleSaveQuoteVersion = async () => {
+    if (!currentQuote) return;
+    setCurrentQuote(await saveQuotationVersion(currentQuote, buildSnapshot(), grandTotal));
+    setLibraryRevision(prev => prev + 1);
+  };
+
+  // Quick save from the results header; a quote without a name goes through the library form
+  const handleSaveQuote = () => {
+    if (!currentQuote) {
+      setShowLibrary(true);
+      return;
+    }
+    handleSaveQuoteVersion().catch(err => console.error("Quotation save failed:", err));
+  };
+
+  const handleOpenQuote = async (quote: SavedQuotation, version: number) => {
+    const saved = await loadVersion(quote.id, version);
+    if (!saved) throw new Error(`Version ${version} of ${quote.id} not found`);
+    const { snapshot } = saved;
+    setQueryInput(snapshot.queryInput);
+    setBulkResults(snapshot.results);
+    setQuotationState(snapshot.selections);
+    setSelectedSupplierFilter(snapshot.supplierFilter);
+    setSelectedSourceFilter(snapshot.sourceFilter);
+    setExpandedRows([]);
+    setShowToast(false);
+    setMissingLines([]);
+    setLineFilters(EMPTY_LINE_FILTERS);
+    setCurrentQuote(quote);
+  };
+
   const handleExportCSV = () => {
-    const headers = ['Item Solicitado', 'Código', 'Produto Encontrado', 'Fornecedor', 'Quantidade', 'Preço Unitário', 'Preço Total', 'Status'];
-    const rows = filteredResults.map((result, idx) => {
-         const selectedIds = Object.keys(quotationState[idx] || {});
-         const selectedId = selectedIds[0];
-         
-         const activeId = (selectedId && result.products.some(p => p.id === selectedId)) 
-            ? selectedId 
-            : (result.products.length > 0 && (result.products[0].matchScore || 0) >= 3000 ? result.products[0].id : null);
-
-         const p = activeId ? result.products.find(prod => prod.id === activeId) : null;
-         const qty = activeId ? (quotationState[idx]?.[activeId] || result.detectedQuantity) : result.detectedQuantity;
-         
-         const status = p && normalizeText(result.term) === normalizeText(p.title) ? 'Exato' : (p ? 'Similar' : 'Não Encontrado');
-         const unitPrice = (p?.price || 0).toLocaleString('pt-BR', {minimumFractionDigits: 2});
-         const totalPrice = ((p?.price || 0) * qty).toLocaleString('pt-BR', {minimumFractionDigits: 2});
-
-         return [
-             `"${result.term.replace(/"/g, '""')}"`,
-             `"${p?.code || ''}"`,
-             `"${p?.title || ''}"`,
-             `"${p?.supplier || ''}"`,
+    const headers = ['Item Solicitado', 'Código', 'Produto Encontrado', 'Fornecedor', 'Fonte', 'Quantidade', 'Preço Unitário', 'Preço Total', 'Status'];
+    // One row per chosen product, so split lines list every supplier
+    const rows = filteredResults.flatMap((result, idx): (string | number)[][] => {
+         const allocations = getLineAllocations(result, quotationState[idx]);
+         const status = LINE_STATUS_LABELS[getLineStatus(result, allocations)];
+         if (allocations.length === 0) {
+           return [[result.term, '', '', '', '', result.detectedQuantity, '', formatDecimal(0), status]];
+         }
+         return allocations.map(({ product: p, quantity: qty }) => [
+             result.term,
+             p.code,
+             p.title,
+             p.supplier,
+             p.sourceName,
              qty,
-             `"${unitPrice}"`,
-             `"${totalPrice}"`,
+             p.price !== null ? formatDecimal(p.price) : '',
+             formatDecimal((p.price || 0) * qty),
              status
-         ].join(';');
+         ]);
     });
     
     // Add Total Row
-    rows.push(['', '', '', '', '', 'TOTAL', `"${grandTotal.toLocaleString('pt-BR', {minimumFractionDigits: 2})}"`, ''].join(';'));
-
-    const csvContent = "\uFEFF" + [headers.join(';'), ...rows].join('\n');
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = 'cotacao_atec_medical.csv';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    rows.push(['', '', '', '', '', '', 'TOTAL', formatDecimal(grandTotal), '']);
+
+    downloadCsv([headers, ...rows], 'cotacao_atec_medical.csv');
+  };
+
+  const handleExportXLSX = () => {
+    downloadQuotationXlsx(filteredResults, quotationState, 'cotacao_atec_medical.xlsx');
   };
 
   if (loading) {
@@ -426,24 +559,205 @@ const App: React.FC = () => {
       <header className="bg-white border-b border-slate-200 sticky top-0 z-40 no-print">
         <div className="max-w-7xl mx-auto px-4 sm:px-8 h-16 flex items-center justify-between">
            <img src="https://atecmedicalsearch.vercel.app/logo.png" alt="ATEC MEDICAL" className="h-10 w-auto" />
+           <div className="flex items-center gap-2">
+             <button
+               onClick={() => setShowLibrary(prev => !prev)}
+               className={`border px-4 py-2 rounded-lg text-xs font-bold transition-colors ${showLibrary ? 'border-[#1E5FCD] text-[#1E5FCD] bg-blue-50' : 'border-slate-300 text-slate-700 hover:bg-slate-50'}`}
+             >
+               Cotações
+             </button>
+             <button
+               onClick={() => setShowSources(prev => !prev)}
+               className={`border px-4 py-2 rounded-lg text-xs font-bold transition-colors ${showSources ? 'border-[#1E5FCD] text-[#1E5FCD] bg-blue-50' : 'border-slate-300 text-slate-700 hover:bg-slate-50'}`}
+             >
+               Catálogos
+             </button>
+             <button
+               onClick={() => setShowChanges(prev => !prev)}
+               className={`border px-4 py-2 rounded-lg text-xs font-bold transition-colors flex items-center gap-2 ${showChanges ? 'border-[#1E5FCD] text-[#1E5FCD] bg-blue-50' : 'border-slate-300 text-slate-700 hover:bg-slate-50'}`}
+             >
+               Alterações
+               {catalogChangeCount > 0 && (
+                 <span className="px-1.5 py-0.5 rounded bg-blue-100 text-[9px] text-[#1E5FCD]">{catalogChangeCount}</span>
+               )}
+             </button>
+             <button
+               onClick={() => setShowHealth(prev => !prev)}
+               className={`border px-4 py-2 rounded-lg text-xs font-bold transition-colors flex items-center gap-2 ${showHealth ? 'border-[#1E5FCD] text-[#1E5FCD] bg-blue-50' : 'border-slate-300 text-slate-700 hover:bg-slate-50'}`}
+             >
+               Qualidade
+               {healthReport.entries.length > 0 && (
+                 <span className="px-1.5 py-0.5 rounded bg-[#FFF8E1] text-[9px] text-[#B7791F]">{healthReport.entries.length}</span>
+               )}
+             </button>
+             <button
+               onClick={() => setShowAliases(prev => !prev)}
+               className={`border px-4 py-2 rounded-lg text-xs font-bold transition-colors ${showAliases ? 'border-[#1E5FCD] text-[#1E5FCD] bg-blue-50' : 'border-slate-300 text-slate-700 hover:bg-slate-50'}`}
+             >
+               Memória
+             </button>
+             <button
+               onClick={() => setShowThesaurus(prev => !prev)}
+               className={`border px-4 py-2 rounded-lg text-xs font-bold transition-colors ${showThesaurus ? 'border-[#1E5FCD] text-[#1E5FCD] bg-blue-50' : 'border-slate-300 text-slate-700 hover:bg-slate-50'}`}
+             >
+               Dicionário
+             </button>
+             <button
+               onClick={() => setShowLlmDebug(prev => !prev)}
+               className={`border px-4 py-2 rounded-lg text-xs font-bold transition-colors ${showLlmDebug ? 'border-[#1E5FCD] text-[#1E5FCD] bg-blue-50' : 'border-slate-300 text-slate-700 hover:bg-slate-50'}`}
+             >
+               IA
+             </button>
+             <button
+               onClick={() => setShowScoring(prev => !prev)}
+               className={`border px-4 py-2 rounded-lg text-xs font-bold transition-colors ${showScoring ? 'border-[#1E5FCD] text-[#1E5FCD] bg-blue-50' : 'border-slate-300 text-slate-700 hover:bg-slate-50'}`}
+             >
+               Pontuação
+             </button>
+           </div>
         </div>
       </header>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-8 py-8 space-y-8">
+        <CatalogStatusBanner
+          reports={catalogReports}
+          refreshedAt={catalogRefreshedAt}
+          isRefreshing={catalogLoading}
+          onRetry={() => loadCatalog(catalogSources)}
+        />
+
+        {showLibrary && (
+          <QuotationLibrary
+            currentQuote={currentQuote}
+            revision={libraryRevision}
+            canSave={bulkResults.length > 0 && !isSearching}
+            canOpen={!isSearching}
+            onSaveNew={handleSaveNewQuote}
+            onSaveVersion={handleSaveQuoteVersion}
+            onOpen={handleOpenQuote}
+            onQuoteChanged={(quote) => setCurrentQuote(prev => (prev?.id === quote.id ? quote : prev))}
+            onQuoteDeleted={(quoteId) => setCurrentQuote(prev => (prev?.id === quoteId ? null : prev))}
+            onClose={() => setShowLibrary(false)}
+          />
+        )}
+
+        {showSources && (
+          <CatalogSourcesPanel
+            sources={catalogSources}
+            reports={catalogReports}
+            isLoading={catalogLoading}
+            saveFailed={sourcesSaveFailed}
+            onChange={setCatalogSources}
+            onReload={() => loadCatalog(catalogSources)}
+            onClose={() => setShowSources(false)}
+          />
+        )}
+
+        {showChanges && (
+          <CatalogChangesPanel
+            diff={catalogDiff}
+            onDismiss={() => {
+              clearCatalogDiff();
+              setCatalogDiff(null);
+            }}
+            onClose={() => setShowChanges(false)}
+          />
+        )}
+
+        {showHealth && (
+          <CatalogHealthPanel
+            report={healthReport}
+            sources={catalogSources}
+            quotedProductIds={quotedProductIds}
+            onShowInQuotation={handleShowInQuotation}
+            onClose={() => setShowHealth(false)}
+          />
+        )}
+
+        {showAliases && (
+          <AliasManager
+            aliases={aliases}
+            onDelete={(key) => setAliases(prev => forgetAlias(prev, key))}
+            onClear={() => setAliases({})}
+            onClose={() => setShowAliases(false)}
+          />
+        )}
+
+        {showThesaurus && (
+          <ThesaurusEditor
+            overrides={thesaurusOverrides}
+            onChange={setThesaurusOverrides}
+            onClose={() => setShowThesaurus(false)}
+          />
+        )}
+
+        {showLlmDebug && <LlmDebugPanel onClose={() => setShowLlmDebug(false)} />}
+
+        {showScoring && (
+          <ScoringProfilePanel
+            profile={scoringProfile}
+            products={allProducts}
+            lexicon={lexicon}
+            onChange={setScoringProfile}
+            onClose={() => setShowScoring(false)}
+          />
+        )}
+
         {/* Input Card */}
-        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 no-print">
-          <h2 className="text-base font-bold text-[#1E5FCD] flex items-center gap-2 mb-4">
-             <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
-             Cole a lista de produto
-          </h2>
+        <div
+          className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 no-print"
+          onDragOver={(e) => { if (e.dataTransfer.types.includes('Files')) e.preventDefault(); }}
+          onDrop={handleRequestFileDrop}
+        >
+          <div className="flex justify-between items-center gap-3 mb-4">
+            <h2 className="text-base font-bold text-[#1E5FCD] flex items-center gap-2">
+               <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
+               Cole a lista de produto
+            </h2>
+            <div className="flex gap-2">
+            <button
+              onClick={() => setShowBrowser(prev => !prev)}
+              className={`border px-4 py-2 rounded-lg text-xs font-bold transition-colors ${showBrowser ? 'border-[#1E5FCD] text-[#1E5FCD] bg-blue-50' : 'border-slate-300 text-slate-700 hover:bg-slate-50'}`}
+            >
+              Buscar no catálogo
+            </button>
+            <button
+              onClick={() => setShowImport(prev => !prev)}
+              className={`border px-4 py-2 rounded-lg text-xs font-bold transition-colors ${showImport ? 'border-[#1E5FCD] text-[#1E5FCD] bg-blue-50' : 'border-slate-300 text-slate-700 hover:bg-slate-50'}`}
+            >
+              Importar arquivo
+            </button>
+            </div>
+          </div>
           <textarea
+             ref={queryInputRef}
              className="w-full h-48 p-4 border border-slate-200 rounded-lg text-sm font-mono focus:ring-2 focus:ring-[#1E5FCD] focus:border-[#1E5FCD] outline-none resize-none placeholder-slate-400 transition-all bg-slate-50 focus:bg-white"
              placeholder="Ex:&#10;AFASTADOR GELPI LOKTITE 18CM  2&#10;AFASTADOR HAYS 5MMX16CM  2&#10;AFASTADOR SEMM MUELLER 16CM AGUDO  4..."
              value={queryInput}
              onChange={(e) => setQueryInput(e.target.value)}
           />
           <div className="flex flex-col sm:flex-row justify-between items-center mt-4 gap-4">
-             <span className="text-xs text-slate-400 font-medium">Suporta até 2.000 itens por cotação</span>
+             <span className="text-xs text-slate-400 font-medium">Suporta até 2.000 itens por cotação • Arraste aqui uma planilha CSV, XLSX ou TXT</span>
+             <div className="flex items-center gap-3">
+             <select
+               value={extractionMode}
+               onChange={(e) => handleExtractionModeChange(e.target.value as ExtractionMode)}
+               disabled={isSearching}
+               title="Como a lista colada é separada em itens"
+               className="border border-slate-300 rounded-lg text-xs font-bold py-2.5 px-3 text-slate-700 outline-none focus:border-[#1E5FCD] bg-white cursor-pointer disabled:opacity-50"
+             >
+               {(Object.keys(EXTRACTION_MODE_LABELS) as ExtractionMode[]).map(mode => (
+                 <option key={mode} value={mode}>{EXTRACTION_MODE_LABELS[mode]}</option>
+               ))}
+             </select>
+             {isSearching && matchProgress && (
+               <button
+                  onClick={handleCancelSearch}
+                  className="border border-slate-300 text-slate-700 px-5 py-2.5 rounded-lg font-bold text-sm hover:bg-red-50 hover:text-red-600 hover:border-red-200 transition-colors"
+               >
+                 Cancelar
+               </button>
+             )}
              <button 
                 onClick={handleSearch} 
                 disabled={isSearching || !queryInput.trim()}
@@ -452,7 +766,9 @@ const App: React.FC = () => {
                {isSearching ? (
                  <>
                    <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
-                   Processando...
+                   {matchProgress
+                     ? `Processando ${matchProgress.processed}/${matchProgress.total}`
+                     : extractProgress && extractProgress.total > 1 ? `Extraindo ${extractProgress.done}/${extractProgress.total}` : 'Processando...'}
                  </>
                ) : (
                  <>
@@ -461,17 +777,87 @@ const App: React.FC = () => {
                  </>
                )}
              </button>
+             </div>
           </div>
         </div>
 
+        {missingLines.length > 0 && (
+          <MissingLinesBanner
+            lines={missingLines}
+            onShowLine={handleShowLine}
+            onDismiss={() => setMissingLines([])}
+          />
+        )}
+
+        {showBrowser && (
+          <CatalogBrowser
+            search={(query, limit) => matchingClientRef.current?.search(query, limit) ?? Promise.reject(new Error("Matching worker not available"))}
+            quotedQuantities={quotedQuantities}
+            isBusy={isSearching}
+            onAddToQuote={handleAddFromCatalog}
+            onBulkSearch={handleBrowserBulkSearch}
+            onClose={() => setShowBrowser(false)}
+          />
+        )}
+
+        {showImport && (
+          <RequestImportPanel
+            file={importFile}
+            disabled={isSearching}
+            onImport={handleImportItems}
+            onClose={() => setShowImport(false)}
+          />
+        )}
+
+        {showOptimizer && bulkResults.length > 0 && !isSearching && (
+          <BasketOptimizerPanel
+            results={filteredResults}
+            selections={quotationState}
+            autoSelectScore={scoringProfile.autoSelectScore}
+            onApply={handleApplyOptimization}
+            onClose={() => setShowOptimizer(false)}
+          />
+        )}
+
+        {showPurchaseOrders && bulkResults.length > 0 && !isSearching && (
+          <PurchaseOrdersPanel
+            results={filteredResults}
+            selections={quotationState}
+            quoteName={currentQuote?.name}
+            customer={currentQuote?.customer}
+            onClose={() => setShowPurchaseOrders(false)}
+          />
+        )}
+
+        {showPdf && bulkResults.length > 0 && !isSearching && (
+          <QuotationPdfPanel
+            results={filteredResults}
+            selections={quotationState}
+            customer={currentQuote?.customer}
+            onClose={() => setShowPdf(false)}
+          />
+        )}
+
         {/* Results Card */}
         {bulkResults.length > 0 && (
           <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
              {/* Results Header */}
              <div className="p-6 border-b border-slate-200 flex flex-col lg:flex-row justify-between items-start lg:items-center gap-4 bg-white no-print">
                <div>
-                 <h2 className="text-xl font-bold text-slate-900">Resultado da Cotação</h2>
-                 <p className="text-xs text-slate-500 mt-1 font-medium">{Object.keys(quotationState).length} selecionados de {bulkResults.length} • Clique em uma linha para ver alternativas</p>
+                 <h2 className="text-xl font-bold text-slate-900">
+                   Resultado da Cotação
+                   {currentQuote && (
+                     <span className="ml-2 text-sm font-bold text-[#1E5FCD]">
+                       {currentQuote.name}{currentQuote.customer ? ` • ${currentQuote.customer}` : ''} (v{currentQuote.latestVersion})
+                     </span>
+                   )}
+                 </h2>
+                 <p className="text-xs text-slate-500 mt-1 font-medium">{allocationSummary.resolved} selecionados de {bulkResults.length} • Clique em uma linha para ver alternativas</p>
+                 {allocationSummary.mismatched > 0 && (
+                   <p className="text-[11px] text-[#B7791F] mt-1 font-bold">
+                     {allocationSummary.mismatched} {allocationSummary.mismatched === 1 ? 'linha tem' : 'linhas têm'} quantidade alocada diferente da pedida
+                   </p>
+                 )}
                </div>
                <div className="flex flex-wrap items-center gap-3 w-full lg:w-auto">
                  <select 
@@ -482,7 +868,51 @@ const App: React.FC = () => {
                    <option>Todos os fornecedores</option>
                    {availableSuppliers.map(s => <option key={s} value={s}>{s}</option>)}
                  </select>
+                 {availableSources.length > 1 && (
+                   <select 
+                     value={selectedSourceFilter}
+                     onChange={(e) => setSelectedSourceFilter(e.target.value)}
+                     className="flex-grow lg:flex-grow-0 border border-slate-300 rounded-lg text-xs font-bold py-2.5 px-3 text-slate-700 outline-none focus:border-[#1E5FCD] bg-white cursor-pointer"
+                   >
+                     <option>Todas as fontes</option>
+                     {availableSources.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                   </select>
+                 )}
                  
+                 <button
+                  onClick={() => setShowLineFilters(prev => !prev)}
+                  className={`border px-4 py-2.5 rounded-lg text-xs font-bold flex items-center gap-2 transition-colors disabled:opacity-50 ${showLineFilters ? 'border-[#1E5FCD] text-[#1E5FCD] bg-blue-50' : 'border-slate-300 text-slate-700 hover:bg-slate-50'}`}
+                 >
+                   <svg className="w-4 h-4 text-[#1E5FCD]" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" /></svg>
+                   Filtros
+                   {hasLineFilters(lineFilters) && (
+                     <span className="px-1.5 py-0.5 rounded bg-blue-100 text-[9px] text-[#1E5FCD]">{visibleLines.size}</span>
+                   )}
+                 </button>
+                 <button
+                  onClick={() => setShowOptimizer(prev => !prev)}
+                  disabled={isSearching}
+                  className={`border px-4 py-2.5 rounded-lg text-xs font-bold flex items-center gap-2 transition-colors disabled:opacity-50 ${showOptimizer ? 'border-[#1E5FCD] text-[#1E5FCD] bg-blue-50' : 'border-slate-300 text-slate-700 hover:bg-slate-50'}`}
+                 >
+                   <svg className="w-4 h-4 text-[#00D17B]" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6" /></svg>
+                   Otimizar
+                 </button>
+                 <button
+                  onClick={() => setShowPurchaseOrders(prev => !prev)}
+                  disabled={isSearching}
+                  className={`border px-4 py-2.5 rounded-lg text-xs font-bold flex items-center gap-2 transition-colors disabled:opacity-50 ${showPurchaseOrders ? 'border-[#1E5FCD] text-[#1E5FCD] bg-blue-50' : 'border-slate-300 text-slate-700 hover:bg-slate-50'}`}
+                 >
+                   <svg className="w-4 h-4 text-[#1E5FCD]" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3h2l.4 2M7 13h10l4-8H5.4M7 13L5.4 5M7 13l-2.293 2.293c-.63.63-.184 1.707.707 1.707H17m0 0a2 2 0 100 4 2 2 0 000-4zm-8 2a2 2 0 11-4 0 2 2 0 014 0z" /></svg>
+                   Pedidos
+                 </button>
+                 <button
+                  onClick={handleSaveQuote}
+                  disabled={isSearching}
+                  className="border border-slate-300 text-slate-700 px-4 py-2.5 rounded-lg text-xs font-bold flex items-center gap-2 hover:bg-slate-50 transition-colors disabled:opacity-50"
+                 >
+                   <svg className="w-4 h-4 text-[#1E5FCD]" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7H5a2 2 0 00-2 2v9a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-3m-1 4l-3 3m0 0l-3-3m3 3V4" /></svg>
+                   {currentQuote ? 'Salvar versão' : 'Salvar'}
+                 </button>
                  <button 
                   onClick={handleExportCSV}
                   className="border border-slate-300 text-slate-700 px-4 py-2.5 rounded-lg text-xs font-bold flex items-center gap-2 hover:bg-slate-50 transition-colors"
@@ -490,13 +920,34 @@ const App: React.FC = () => {
                    <svg className="w-4 h-4 text-green-600" fill="currentColor" viewBox="0 0 24 24"><path d="M14 2H6c-1.1 0-1.99.9-1.99 2L4 20c0 1.1.89 2 1.99 2H18c1.1 0 2-.9 2-2V8l-6-6zm2 16H8v-2h8v2zm0-4H8v-2h8v2zm-3-5V3.5L18.5 9H13z"/></svg>
                    CSV
                  </button>
-                 <button onClick={() => window.print()} className="border border-slate-300 text-slate-700 px-4 py-2.5 rounded-lg text-xs font-bold flex items-center gap-2 hover:bg-slate-50 transition-colors">
+                 <button 
+                  onClick={handleExportXLSX}
+                  className="border border-slate-300 text-slate-700 px-4 py-2.5 rounded-lg text-xs font-bold flex items-center gap-2 hover:bg-slate-50 transition-colors"
+                 >
+                   <svg className="w-4 h-4 text-green-600" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M3 14h18M10 3v18M5 3h14a2 2 0 012 2v14a2 2 0 01-2 2H5a2 2 0 01-2-2V5a2 2 0 012-2z" /></svg>
+                   XLSX
+                 </button>
+                 <button
+                  onClick={() => setShowPdf(prev => !prev)}
+                  disabled={isSearching}
+                  className={`border px-4 py-2.5 rounded-lg text-xs font-bold flex items-center gap-2 transition-colors disabled:opacity-50 ${showPdf ? 'border-[#1E5FCD] text-[#1E5FCD] bg-blue-50' : 'border-slate-300 text-slate-700 hover:bg-slate-50'}`}
+                 >
                    <svg className="w-4 h-4 text-red-600" fill="currentColor" viewBox="0 0 24 24"><path d="M20 2H8c-1.1 0-2 .9-2 2v12c0 1.1.9 2 2 2h12c1.1 0 2-.9 2-2V4c0-1.1-.9-2-2-2zm-8.5 7.5c0 .83-.67 1.5-1.5 1.5H9v2H7.5V7H10c.83 0 1.5.67 1.5 1.5v1zm5 2c0 .83-.67 1.5-1.5 1.5h-2.5V7H15c.83 0 1.5.67 1.5 1.5v3zm4-3H19v1h1.5v1.5H19v2h-1.5V7h2V7zM9 9.5h1v-1H9v1zM4 6H2v14c0 1.1.9 2 2 2h14v-2H4V6zm10 5.5h1v-3h-1v3z"/></svg>
                    PDF
                  </button>
                </div>
              </div>
 
+             <ResultFiltersBar
+               filters={lineFilters}
+               counts={facetCounts}
+               showOptions={showLineFilters}
+               visibleLines={visibleLines.size}
+               totalLines={filteredResults.length}
+               formatPrice={(value) => currencyFormatter.format(value)}
+               onChange={setLineFilters}
+             />
+
              {/* Table */}
              <div className="overflow-x-auto">
                <table className="min-w-full text-left border-collapse">
@@ -516,23 +967,19 @@ const App: React.FC = () => {
                  </thead>
                  <tbody className="divide-y divide-slate-100">
                    {filteredResults.map((result, idx) => {
-                     const selectedIds = Object.keys(quotationState[idx] || {});
-                     const selectedId = selectedIds[0];
-                     
-                     const activeId = (selectedId && result.products.some(p => p.id === selectedId)) 
-                        ? selectedId 
-                        : (result.products.length > 0 && (result.products[0].matchScore || 0) >= 3000 ? result.products[0].id : null);
-
-                     const p = activeId ? result.products.find(prod => prod.id === activeId) : null;
-                     const qty = activeId ? (quotationState[idx]?.[activeId] || result.detectedQuantity) : result.detectedQuantity;
-                     
-                     const isExact = p && normalizeText(result.term) === normalizeText(p.title);
+                     if (!visibleLines.has(idx)) return null;
+                     const allocations = getLineAllocations(result, quotationState[idx]);
+                     const p = allocations.length > 0 ? allocations[0].product : null;
+                     const isSplit = allocations.length > 1;
+                     const allocated = allocatedQuantity(allocations);
+                     const status = getLineStatus(result, allocations);
                      const isExpanded = expandedRows.includes(idx);
                      const hasMatches = result.products.length > 0;
 
                      return (
                        <React.Fragment key={idx}>
                          <tr 
+                           id={`result-row-${idx}`}
                            className={`group transition-colors ${!p ? 'bg-red-50/30' : 'hover:bg-slate-50'}`}
                            onClick={() => {
                              if (hasMatches) setExpandedRows(prev => prev.includes(idx) ? prev.filter(i => i !== idx) : [...prev, idx]);
@@ -545,51 +992,93 @@ const App: React.FC = () => {
                             </td>
                             <td className="py-4 px-4">
                                <p className="text-[11px] font-bold text-slate-700 truncate max-w-[150px]">{result.term}</p>
+                               {result.extractedBy && (
+                                 <span
+                                   title={EXTRACTED_BY_TITLES[result.extractedBy]}
+                                   className={`inline-block mt-1 px-1.5 rounded text-[9px] font-bold uppercase tracking-wider ${result.extractedBy === 'ai' ? 'bg-purple-50 text-purple-600' : 'bg-slate-100 text-slate-500'}`}
+                                 >
+                                   {EXTRACTED_BY_LABELS[result.extractedBy]}
+                                 </span>
+                               )}
                             </td>
+                            {/* Split lines stack one entry per chosen product in each column */}
                             <td className="py-4 px-4">
-                               <p className="text-[11px] font-mono text-slate-500">{p?.code || '-'}</p>
+                               {p ? allocations.map(a => (
+                                 <p key={a.product.id} className="text-[11px] font-mono text-slate-500 leading-6">{a.product.code}</p>
+                               )) : <p className="text-[11px] font-mono text-slate-500">-</p>}
                             </td>
                             <td className="py-4 px-4">
                                {p ? (
-                                 <p className="text-[11px] font-bold text-slate-800">{p.title}</p>
+                                 <>
+                                   {allocations.map(a => (
+                                     <p key={a.product.id} className="text-[11px] font-bold text-slate-800 leading-6">{a.product.title}</p>
+                                   ))}
+                                   {allocations.some(a => a.product.id === result.learnedProductId) && (
+                                     <span className="inline-block mt-1 px-1.5 py-0.5 rounded bg-purple-50 text-[9px] font-bold uppercase tracking-wider text-purple-600" title="Selecionado a partir de uma escolha manual anterior">
+                                       Memorizado
+                                     </span>
+                                   )}
+                                 </>
                                ) : (
                                  <p className="text-[11px] font-bold text-red-400 italic">Produto não encontrado</p>
                                )}
                             </td>
                             <td className="py-4 px-4">
-                               <p className="text-[11px] text-slate-600 truncate max-w-[120px]">{p?.supplier || '-'}</p>
+                               {p ? allocations.map(a => (
+                                 <p key={a.product.id} className="text-[11px] text-slate-600 truncate max-w-[120px] leading-6">
+                                   {a.product.supplier}
+                                   {availableSources.length > 1 && <span className="text-[9px] text-slate-400"> • {a.product.sourceName}</span>}
+                                 </p>
+                               )) : <p className="text-[11px] text-slate-600">-</p>}
                             </td>
                             <td className="py-4 px-4 text-center" onClick={(e) => e.stopPropagation()}>
-                               <input 
-                                 type="number" 
-                                 min="1"
-                                 value={qty}
-                                 disabled={!p}
-                                 onChange={(e) => p && handleQuantityChange(idx, p.id, parseInt(e.target.value) || 1)}
-                                 className="w-16 py-1.5 px-1 text-center border border-slate-200 rounded text-xs font-bold text-slate-700 focus:border-[#1E5FCD] outline-none disabled:bg-slate-50 bg-white"
-                               />
+                               {p ? allocations.map(a => (
+                                 <input 
+                                   key={a.product.id}
+                                   type="number" 
+                                   min="1"
+                                   value={a.quantity}
+                                   onChange={(e) => handleQuantityChange(idx, a.product.id, parseInt(e.target.value) || 1)}
+                                   className="block w-16 h-6 mx-auto px-1 text-center border border-slate-200 rounded text-xs font-bold text-slate-700 focus:border-[#1E5FCD] outline-none bg-white"
+                                 />
+                               )) : (
+                                 <input type="number" value={result.detectedQuantity} disabled className="w-16 py-1.5 px-1 text-center border border-slate-200 rounded text-xs font-bold text-slate-700 disabled:bg-slate-50" />
+                               )}
+                               {p && allocated !== result.detectedQuantity && (
+                                 <p className="mt-1 text-[9px] font-bold text-[#B7791F] whitespace-nowrap" title="A soma das quantidades escolhidas difere da quantidade pedida">
+                                   {allocated} de {result.detectedQuantity}
+                                 </p>
+                               )}
                             </td>
                             <td className="py-4 px-4 text-right">
-                               <p className="text-[11px] text-slate-600 font-medium whitespace-nowrap">{p ? currencyFormatter.format(p.price || 0) : '-'}</p>
+                               {p ? allocations.map(a => (
+                                 <p key={a.product.id} className="text-[11px] text-slate-600 font-medium whitespace-nowrap leading-6">
+                                   {a.product.price === null ? 'Sob consulta' : currencyFormatter.format(a.product.price)}
+                                 </p>
+                               )) : <p className="text-[11px] text-slate-600">-</p>}
                             </td>
                             <td className="py-4 px-4 text-right">
-                               <p className="text-[11px] text-slate-900 font-bold whitespace-nowrap">{p ? currencyFormatter.format((p.price || 0) * qty) : '-'}</p>
+                               <p className="text-[11px] text-slate-900 font-bold whitespace-nowrap">{p ? currencyFormatter.format(allocationsTotal(allocations)) : '-'}</p>
                             </td>
                             <td className="py-4 px-4 text-center">
                               {p ? (
-                                <span className={`inline-block px-2.5 py-1 rounded-md text-[10px] font-bold uppercase tracking-wider ${isExact ? 'bg-green-100 text-green-700' : 'bg-[#FFF8E1] text-[#B7791F]'}`}>
-                                  {isExact ? 'Exato' : 'Similar'}
+                                <span className={`inline-block px-2.5 py-1 rounded-md text-[10px] font-bold uppercase tracking-wider ${status === 'exact' ? 'bg-green-100 text-green-700' : 'bg-[#FFF8E1] text-[#B7791F]'}`}>
+                                  {LINE_STATUS_LABELS[status]}
                                 </span>
                               ) : (
                                 <span className="inline-block px-2.5 py-1 rounded-md text-[10px] font-bold uppercase tracking-wider bg-red-100 text-red-700">
                                   Não Enc.
                                 </span>
                               )}
+                              {isSplit && (
+                                <span className="block mt-1 text-[9px] font-bold uppercase tracking-wider text-[#1E5FCD]">Dividido ({allocations.length})</span>
+                              )}
                             </td>
                             <td className="py-4 px-2 no-print text-center flex items-center justify-center gap-2">
                                <button
                                  onClick={(e) => { e.stopPropagation(); handleRemoveItem(idx); }}
-                                 className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-md transition-colors"
+                                 disabled={isSearching}
+                                 className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-md transition-colors disabled:opacity-30 disabled:pointer-events-none"
                                  title="Remover Item"
                                >
                                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
@@ -605,16 +1094,17 @@ const App: React.FC = () => {
                             <tr className="bg-[#F8FAFC] no-print border-b border-slate-200">
                               <td colSpan={10} className="p-4 pl-16">
                                 <div className="bg-white border border-slate-200 rounded-lg p-4 shadow-sm">
-                                  <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-3">Alternativas para "{result.term}"</p>
+                                  <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-1">Alternativas para "{result.term}"</p>
+                                  <p className="text-[10px] text-slate-400 mb-3">Marque mais de um produto para dividir a quantidade entre fornecedores.</p>
                                   <ProductTable 
                                     products={result.products} 
                                     termIndex={idx} 
-                                    selectedItems={quotationState[idx] || {}} 
-                                    onToggleSelect={(tIdx, pId) => {
-                                      // Logic to ensure only one is selected if needed, or allow multiple
-                                      // Here we switch selection to the clicked one for the main view
-                                      setQuotationState(prev => ({ ...prev, [tIdx]: { [pId]: result.detectedQuantity || 1 } }));
-                                    }} 
+                                    scoredWith={result.scoredWith}
+                                    term={result.term}
+                                    lexicon={lexicon}
+                                    profile={scoringProfile}
+                                    selectedItems={Object.fromEntries(allocations.map(a => [a.product.id, a.quantity]))} 
+                                    onToggleSelect={handleToggleProduct} 
                                     onQuantityChange={handleQuantityChange} 
                                   />
                                 </div>
@@ -627,6 +1117,15 @@ const App: React.FC = () => {
                  </tbody>
                  {/* Total Footer */}
                  <tfoot className="bg-slate-50 border-t-2 border-slate-200">
+                    {hasLineFilters(lineFilters) && (
+                      <tr className="no-print">
+                        <td colSpan={7} className="pt-4 px-4 text-right text-xs font-black text-slate-500 uppercase tracking-wider">
+                          Total das {visibleLines.size} linhas filtradas
+                        </td>
+                        <td className="pt-4 px-4 text-right text-sm font-black text-slate-700 whitespace-nowrap">{currencyFormatter.format(visibleTotal)}</td>
+                        <td colSpan={2}></td>
+                      </tr>
+                    )}
                     <tr>
                       <td colSpan={7} className="py-4 px-4 text-right text-xs font-black text-slate-500 uppercase tracking-wider">Total da Cotação</td>
                       <td className="py-4 px-4 text-right text-sm font-black text-[#1E5FCD] whitespace-nowrap">{currencyFormatter.format(grandTotal)}</td>
@@ -646,7 +1145,7 @@ const App: React.FC = () => {
              <svg className="w-3.5 h-3.5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3}><path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" /></svg>
            </div>
            <div>
-             <p className="text-xs font-bold text-slate-800">Cotação gerada com sucesso</p>
+             <p className="text-xs font-bold text-slate-800">{toastStats.cancelled ? 'Cotação interrompida' : 'Cotação gerada com sucesso'}</p>
              <p className="text-[11px] text-slate-500 font-medium mt-0.5">{toastStats.exact} exatos, {toastStats.similar} similares, {toastStats.notFound} não encontrados.</p>
            </div>
            <button onClick={() => setShowToast(false)} className="text-slate-400 hover:text-slate-600">
@@ -0,0 +1,91 @@
+import React, { useMemo, useState } from 'react';
+import { AliasStore } from '../services/aliasService';
+import { normalizeText } from '../services/matchScorer';
+
+interface AliasManagerProps {
+  aliases: AliasStore;
+  onDelete: (key: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const buttonClass = "border border-slate-300 text-slate-700 px-3 py-2 rounded-lg text-xs font-bold hover:bg-slate-50 transition-colors disabled:opacity-50";
+
+const AliasManager: React.FC<AliasManagerProps> = ({ aliases, onDelete, onClear, onClose }) => {
+  const [filter, setFilter] = useState('');
+
+  const entries = useMemo(() => {
+    const needle = normalizeText(filter);
+    return Object.keys(aliases)
+      .map(key => [key, aliases[key]] as const)
+      .filter(([key, alias]) => !needle || key.includes(needle) || normalizeText(`${alias.title} ${alias.code} ${alias.supplier}`).includes(needle))
+      .sort((a, b) => b[1].updatedAt - a[1].updatedAt);
+  }, [aliases, filter]);
+
+  const handleClear = () => {
+    if (window.confirm("Apagar todas as escolhas memorizadas?")) onClear();
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 no-print space-y-4">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <div>
+          <h2 className="text-base font-bold text-[#1E5FCD]">Escolhas memorizadas</h2>
+          <p className="text-xs text-slate-500 mt-1 font-medium">Produtos escolhidos manualmente são selecionados automaticamente nas próximas cotações com o mesmo item.</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={handleClear} disabled={entries.length === 0} className={`${buttonClass} hover:text-red-600`}>Apagar todas</button>
+          <button onClick={onClose} className={buttonClass}>Fechar</button>
+        </div>
+      </div>
+
+      <input
+        className="w-full border border-slate-300 rounded-lg text-xs py-2 px-3 text-slate-700 outline-none focus:border-[#1E5FCD] bg-white"
+        placeholder="Filtrar por item, produto, código ou fornecedor..."
+        value={filter}
+        onChange={(e) => setFilter(e.target.value)}
+      />
+
+      {entries.length === 0 ? (
+        <p className="text-[11px] text-slate-400 italic">Nenhuma escolha memorizada.</p>
+      ) : (
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="min-w-full divide-y divide-slate-100">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider">Item Solicitado</th>
+                <th className="px-3 py-2 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider">Produto</th>
+                <th className="px-3 py-2 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider">Código</th>
+                <th className="px-3 py-2 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider">Fornecedor</th>
+                <th className="px-3 py-2 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider">Atualizado</th>
+                <th className="px-3 py-2 w-8"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {entries.map(([key, alias]) => (
+                <tr key={key} className="hover:bg-slate-50">
+                  <td className="px-3 py-3"><p className="text-[11px] font-bold text-slate-700">{alias.term}</p></td>
+                  <td className="px-3 py-3"><p className="text-[11px] text-slate-700">{alias.title}</p></td>
+                  <td className="px-3 py-3"><p className="text-[11px] font-mono text-slate-500">{alias.code}</p></td>
+                  <td className="px-3 py-3"><p className="text-[11px] text-slate-600">{alias.supplier}</p></td>
+                  <td className="px-3 py-3"><p className="text-[11px] text-slate-400 whitespace-nowrap">{new Date(alias.updatedAt).toLocaleDateString('pt-BR')}</p></td>
+                  <td className="px-3 py-3 text-center">
+                    <button
+                      onClick={() => onDelete(key)}
+                      className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-md transition-colors"
+                      title="Esquecer escolha"
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AliasManager;
@@ -0,0 +1,172 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BulkSearchResult, QuotationMap } from '../types';
+import { OptimizerGoal, optimizeBasket } from '../services/basketOptimizer';
+
+interface BasketOptimizerPanelProps {
+  results: BulkSearchResult[];
+  selections: QuotationMap;
+  autoSelectScore: number;  // Active profile's threshold, the starting minimum score
+  onApply: (picks: { index: number; productId: string; quantity: number }[]) => void;
+  onClose: () => void;
+}
+
+const GOAL_LABELS: Record<OptimizerGoal, { title: string; hint: string }> = {
+  cheapest: { title: 'Menor custo', hint: 'Produto mais barato de cada linha.' },
+  fewest_suppliers: { title: 'Menos fornecedores', hint: 'Concentra a compra no menor número de fornecedores.' },
+  balanced: { title: 'Equilibrado', hint: 'Só inclui um fornecedor a mais se a economia passar do valor abaixo.' },
+};
+
+const inputClass = "border border-slate-300 rounded-lg text-xs py-2 px-3 text-slate-700 outline-none focus:border-[#1E5FCD] bg-white";
+const buttonClass = "border border-slate-300 text-slate-700 px-3 py-2 rounded-lg text-xs font-bold hover:bg-slate-50 transition-colors disabled:opacity-50";
+
+const currencyFormatter = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' });
+
+const BasketOptimizerPanel: React.FC<BasketOptimizerPanelProps> = ({ results, selections, autoSelectScore, onApply, onClose }) => {
+  const [goal, setGoal] = useState<OptimizerGoal>('cheapest');
+  const [minScore, setMinScore] = useState(autoSelectScore);
+  const [supplierCost, setSupplierCost] = useState(50);
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+
+  const proposal = useMemo(
+    () => optimizeBasket(results, selections, { goal, minScore, supplierCost }),
+    [results, selections, goal, minScore, supplierCost]
+  );
+
+  // A new proposal starts with every line accepted
+  useEffect(() => {
+    setExcluded(new Set());
+  }, [proposal]);
+
+  const accepted = proposal.lines.filter(l => !excluded.has(l.index));
+  const savings = accepted.reduce((sum, l) => sum + l.currentCost - l.proposedCost, 0);
+
+  const toggleLine = (index: number) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const apply = () => {
+    onApply(accepted.map(l => ({ index: l.index, productId: l.proposed.id, quantity: l.quantity })));
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 no-print space-y-4">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <div>
+          <h2 className="text-base font-bold text-[#1E5FCD]">Otimizar cotação</h2>
+          <p className="text-xs text-slate-500 mt-1 font-medium">Propõe uma nova escolha para cada linha. Linhas divididas entre vários produtos não são alteradas.</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={apply} disabled={accepted.length === 0} className="bg-[#1E5FCD] text-white px-3 py-2 rounded-lg text-xs font-bold hover:bg-blue-700 transition-colors disabled:opacity-50">
+            {accepted.length === proposal.lines.length ? 'Aplicar todas' : `Aplicar ${accepted.length} selecionadas`}
+          </button>
+          <button onClick={onClose} className={buttonClass}>Fechar</button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        {(Object.keys(GOAL_LABELS) as OptimizerGoal[]).map(g => (
+          <button
+            key={g}
+            onClick={() => setGoal(g)}
+            className={`text-left border rounded-lg px-3 py-2 transition-colors ${goal === g ? 'border-[#1E5FCD] bg-blue-50' : 'border-slate-200 hover:bg-slate-50'}`}
+          >
+            <p className={`text-xs font-bold ${goal === g ? 'text-[#1E5FCD]' : 'text-slate-700'}`}>{GOAL_LABELS[g].title}</p>
+            <p className="text-[10px] text-slate-500">{GOAL_LABELS[g].hint}</p>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-[11px] font-bold text-slate-600">
+          Pontuação mínima
+          <input type="number" min={0} step={100} value={minScore} onChange={(e) => setMinScore(parseInt(e.target.value) || 0)} className={`${inputClass} w-24`} />
+        </label>
+        {goal === 'balanced' && (
+          <label className="flex items-center gap-2 text-[11px] font-bold text-slate-600">
+            Economia mínima por fornecedor (R$)
+            <input type="number" min={0} step={10} value={supplierCost} onChange={(e) => setSupplierCost(parseFloat(e.target.value) || 0)} className={`${inputClass} w-24`} />
+          </label>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-6 bg-slate-50 rounded-lg px-4 py-3">
+        <div>
+          <p className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">Atual</p>
+          <p className="text-sm font-bold text-slate-700">{currencyFormatter.format(proposal.currentTotal)}</p>
+          <p className="text-[10px] text-slate-500">{proposal.currentSuppliers} fornecedores</p>
+        </div>
+        <div>
+          <p className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">Proposta</p>
+          <p className="text-sm font-bold text-slate-700">{currencyFormatter.format(proposal.proposedTotal)}</p>
+          <p className="text-[10px] text-slate-500">{proposal.proposedSuppliers} fornecedores</p>
+        </div>
+        <div>
+          <p className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">Economia selecionada</p>
+          <p className={`text-sm font-bold ${savings >= 0 ? 'text-green-600' : 'text-red-500'}`}>{currencyFormatter.format(savings)}</p>
+          <p className="text-[10px] text-slate-500">{accepted.length} de {proposal.lines.length} linhas</p>
+        </div>
+      </div>
+
+      {proposal.lines.length === 0 ? (
+        <p className="text-[11px] text-slate-400 italic">As escolhas atuais já atendem a este objetivo.</p>
+      ) : (
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="min-w-full divide-y divide-slate-100">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-3 py-2 w-8"></th>
+                <th className="px-3 py-2 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider">Item Solicitado</th>
+                <th className="px-3 py-2 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider">Atual</th>
+                <th className="px-3 py-2 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider">Proposto</th>
+                <th className="px-3 py-2 text-right text-[9px] font-bold text-slate-400 uppercase tracking-wider">Diferença</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {proposal.lines.map(line => {
+                const diff = line.proposedCost - line.currentCost;
+                const isAccepted = !excluded.has(line.index);
+                return (
+                  <tr key={line.index} className={isAccepted ? 'hover:bg-slate-50' : 'opacity-50'}>
+                    <td className="px-3 py-2 text-center">
+                      <input type="checkbox" checked={isAccepted} onChange={() => toggleLine(line.index)} className="w-3.5 h-3.5 accent-[#1E5FCD] cursor-pointer" />
+                    </td>
+                    <td className="px-3 py-2">
+                      <p className="text-[11px] font-bold text-slate-700">{line.term}</p>
+                      <p className="text-[9px] text-slate-400">{line.quantity} un</p>
+                    </td>
+                    <td className="px-3 py-2">
+                      {line.current.length > 0 ? (
+                        <>
+                          <p className="text-[11px] text-slate-600 max-w-[240px] truncate">{line.current[0].product.title}</p>
+                          <p className="text-[9px] text-slate-400">{line.current[0].product.supplier} • {currencyFormatter.format(line.currentCost)}</p>
+                        </>
+                      ) : (
+                        <p className="text-[11px] text-red-400 italic">Nenhum</p>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">
+                      <p className="text-[11px] font-bold text-slate-700 max-w-[240px] truncate">{line.proposed.title}</p>
+                      <p className="text-[9px] text-slate-400">{line.proposed.supplier} • {currencyFormatter.format(line.proposedCost)} • pontuação {Math.round(line.proposed.matchScore || 0)}</p>
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <p className={`text-[11px] font-bold whitespace-nowrap ${diff <= 0 ? 'text-green-600' : 'text-red-500'}`}>
+                        {diff > 0 ? '+' : ''}{currencyFormatter.format(diff)}
+                      </p>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BasketOptimizerPanel;
@@ -0,0 +1,148 @@
+import React, { useMemo, useState } from 'react';
+import { MappedProduct, SearchIntent, SortOption } from '../types';
+import { analyzeSearchIntent } from '../services/llmService';
+import { SORT_OPTION_LABELS, applyIntentFilters, intentQuery, sortProducts } from '../services/catalogBrowseService';
+import SearchBar from './SearchBar';
+import ProductCard from './ProductCard';
+
+interface CatalogBrowserProps {
+  search: (query: string, limit: number) => Promise<MappedProduct[]>;
+  quotedQuantities: Map<string, number>; // Product id -> units already in the quotation
+  isBusy: boolean;                       // A list quotation is running
+  // `scoredQuery` is the text the results were ranked against (the query minus price words)
+  onAddToQuote: (product: MappedProduct, query: string, results: MappedProduct[], scoredQuery: string) => void;
+  onBulkSearch: (text: string) => void;  // The search bar's 'Lista' tab
+  onClose: () => void;
+}
+
+// Products fetched per query; filters and sorting work on this set
+const SEARCH_LIMIT = 200;
+const PAGE_SIZE = 24;
+
+const buttonClass = "border border-slate-300 text-slate-700 px-3 py-2 rounded-lg text-xs font-bold hover:bg-slate-50 transition-colors disabled:opacity-50";
+
+const CatalogBrowser: React.FC<CatalogBrowserProps> = ({ search, quotedQuantities, isBusy, onAddToQuote, onBulkSearch, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [scoredQuery, setScoredQuery] = useState('');
+  const [intent, setIntent] = useState<SearchIntent | null>(null);
+  const [results, setResults] = useState<MappedProduct[]>([]);
+  const [sort, setSort] = useState<SortOption>(SortOption.Relevance);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const currency = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' });
+
+  const handleSearch = async (text: string, mode: 'single' | 'bulk') => {
+    if (mode === 'bulk') {
+      onBulkSearch(text);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const parsed = await analyzeSearchIntent(text);
+      const searched = intentQuery(parsed, text);
+      const products = await search(searched, SEARCH_LIMIT);
+      setQuery(text);
+      setScoredQuery(searched);
+      setIntent(parsed);
+      setResults(products);
+      setVisibleCount(PAGE_SIZE);
+    } catch (err) {
+      console.error("Catalog search failed:", err);
+      setError("Não foi possível buscar no catálogo. Tente novamente.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const visible = useMemo(
+    () => (intent ? sortProducts(applyIntentFilters(results, intent), sort) : []),
+    [results, intent, sort]
+  );
+
+  // Price and category come from the query; each can be dropped to widen the results
+  const chips: { label: string; clear: Partial<SearchIntent> }[] = [];
+  if (intent?.minPrice !== undefined) chips.push({ label: `A partir de ${currency.format(intent.minPrice)}`, clear: { minPrice: undefined } });
+  if (intent?.maxPrice !== undefined) chips.push({ label: `Até ${currency.format(intent.maxPrice)}`, clear: { maxPrice: undefined } });
+  if (intent?.category) chips.push({ label: `Categoria: ${intent.category}`, clear: { category: undefined } });
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 no-print space-y-5">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <div>
+          <h2 className="text-base font-bold text-[#1E5FCD]">Buscar no catálogo</h2>
+          <p className="text-xs text-slate-500 mt-1 font-medium">Pesquise um produto, inclusive com faixa de preço ("tesoura mayo até R$ 200"), e adicione à cotação pelo carrinho.</p>
+        </div>
+        <button onClick={onClose} className={buttonClass}>Fechar</button>
+      </div>
+
+      <SearchBar onSearch={handleSearch} isSearching={loading || isBusy} />
+      {error && <p className="text-[11px] font-bold text-red-600 text-center">{error}</p>}
+
+      {intent && (
+        <>
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 border-t border-slate-100 pt-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-xs font-bold text-slate-700">
+                {visible.length.toLocaleString('pt-BR')} {visible.length === 1 ? 'produto' : 'produtos'} para "{query}"
+              </span>
+              {intent.keywords.length > 0 && (
+                <span className="px-2 py-1 rounded bg-slate-100 text-[10px] font-bold text-slate-500">
+                  Termos: {intent.keywords.join(', ')}
+                </span>
+              )}
+              {chips.map(chip => (
+                <button
+                  key={chip.label}
+                  onClick={() => setIntent(prev => (prev ? { ...prev, ...chip.clear } : prev))}
+                  title="Remover filtro"
+                  className="px-2 py-1 rounded bg-blue-50 text-[10px] font-bold text-[#1E5FCD] hover:bg-blue-100 transition-colors"
+                >
+                  {chip.label} ✕
+                </button>
+              ))}
+            </div>
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as SortOption)}
+              className="border border-slate-300 rounded-lg text-xs font-bold py-2 px-3 text-slate-700 outline-none focus:border-[#1E5FCD] bg-white cursor-pointer"
+            >
+              {Object.values(SortOption).map(option => (
+                <option key={option} value={option}>{SORT_OPTION_LABELS[option]}</option>
+              ))}
+            </select>
+          </div>
+
+          {visible.length === 0 ? (
+            <p className="text-xs text-slate-400 text-center py-6">
+              Nenhum produto encontrado{chips.length > 0 ? ' com esses filtros' : ''}.
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+              {visible.slice(0, visibleCount).map(product => (
+                <ProductCard
+                  key={product.id}
+                  product={product}
+                  quotedQuantity={quotedQuantities.get(product.id)}
+                  onAddToQuote={isBusy ? undefined : (p) => onAddToQuote(p, query, visible, scoredQuery)}
+                />
+              ))}
+            </div>
+          )}
+
+          {visible.length > visibleCount && (
+            <div className="text-center">
+              <button onClick={() => setVisibleCount(prev => prev + PAGE_SIZE)} className={buttonClass}>
+                Mostrar mais ({visible.length - visibleCount} restantes)
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CatalogBrowser;
@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from 'react';
+import { CatalogDiff, RepricedEntry, SnapshotEntry } from '../services/catalogSnapshotService';
+import { normalizeText } from '../services/matchScorer';
+
+interface CatalogChangesPanelProps {
+  diff: CatalogDiff | null;
+  onDismiss: () => void;
+  onClose: () => void;
+}
+
+type ChangeTab = 'added' | 'removed' | 'repriced';
+
+const TAB_LABELS: Record<ChangeTab, string> = {
+  added: 'Novos',
+  removed: 'Removidos',
+  repriced: 'Preço alterado',
+};
+
+const MAX_ROWS = 300;
+
+const buttonClass = "border border-slate-300 text-slate-700 px-3 py-2 rounded-lg text-xs font-bold hover:bg-slate-50 transition-colors disabled:opacity-50";
+
+const formatPrice = (price: number | null) =>
+  price === null ? 'Sob consulta' : new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(price);
+
+const formatDate = (time: number) => new Date(time).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+const CatalogChangesPanel: React.FC<CatalogChangesPanelProps> = ({ diff, onDismiss, onClose }) => {
+  const [tab, setTab] = useState<ChangeTab>('repriced');
+  const [filter, setFilter] = useState('');
+
+  const entries: (SnapshotEntry | RepricedEntry)[] = useMemo(() => {
+    if (!diff) return [];
+    const needle = normalizeText(filter);
+    return diff[tab].filter(e => !needle || normalizeText(`${e.title} ${e.code} ${e.supplier} ${e.sourceName}`).includes(needle));
+  }, [diff, tab, filter]);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 no-print space-y-4">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <div>
+          <h2 className="text-base font-bold text-[#1E5FCD]">Alterações no catálogo</h2>
+          <p className="text-xs text-slate-500 mt-1 font-medium">
+            {diff
+              ? `Mudanças detectadas em ${formatDate(diff.detectedAt)}, comparadas com a carga de ${formatDate(diff.since)}.`
+              : 'Nenhuma alteração registrada. As mudanças aparecem a partir da próxima carga com listas diferentes.'}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={onDismiss} disabled={!diff} className={buttonClass}>Marcar como vistas</button>
+          <button onClick={onClose} className={buttonClass}>Fechar</button>
+        </div>
+      </div>
+
+      {diff && (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            {(Object.keys(TAB_LABELS) as ChangeTab[]).map(t => (
+              <button
+                key={t}
+                onClick={() => setTab(t)}
+                className={`px-3 py-1.5 rounded-lg text-[11px] font-bold border transition-colors ${tab === t ? 'border-[#1E5FCD] text-[#1E5FCD] bg-blue-50' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+              >
+                {TAB_LABELS[t]} <span className="ml-1 text-slate-400">{diff[t].length}</span>
+              </button>
+            ))}
+            <input
+              className="ml-auto border border-slate-300 rounded-lg text-xs py-1.5 px-3 text-slate-700 outline-none focus:border-[#1E5FCD] bg-white"
+              placeholder="Filtrar por produto, código ou fornecedor..."
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+            />
+          </div>
+
+          {entries.length === 0 ? (
+            <p className="text-[11px] text-slate-400 italic">Nada nesta categoria.</p>
+          ) : (
+            <div className="overflow-x-auto max-h-96 overflow-y-auto">
+              <table className="min-w-full divide-y divide-slate-100">
+                <thead className="bg-slate-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider">Código</th>
+                    <th className="px-3 py-2 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider">Produto</th>
+                    <th className="px-3 py-2 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider">Fornecedor</th>
+                    <th className="px-3 py-2 text-right text-[9px] font-bold text-slate-400 uppercase tracking-wider">Preço</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50">
+                  {entries.slice(0, MAX_ROWS).map(entry => {
+                    const previousPrice = 'previousPrice' in entry ? entry.previousPrice : undefined;
+                    const change = previousPrice && entry.price !== null ? (entry.price - previousPrice) / previousPrice : null;
+                    return (
+                      <tr key={entry.id} className="hover:bg-slate-50">
+                        <td className="px-3 py-2"><p className="text-[11px] font-mono text-slate-500">{entry.code}</p></td>
+                        <td className="px-3 py-2"><p className="text-[11px] font-bold text-slate-700 max-w-[320px] truncate">{entry.title}</p></td>
+                        <td className="px-3 py-2">
+                          <p className="text-[11px] text-slate-600">{entry.supplier}</p>
+                          <p className="text-[9px] text-slate-400">{entry.sourceName}</p>
+                        </td>
+                        <td className="px-3 py-2 text-right whitespace-nowrap">
+                          {previousPrice !== undefined && (
+                            <p className="text-[9px] text-slate-400 line-through">{formatPrice(previousPrice)}</p>
+                          )}
+                          <p className="text-[11px] font-medium text-slate-700">{formatPrice(entry.price)}</p>
+                          {change !== null && (
+                            <p className={`text-[9px] font-bold ${change > 0 ? 'text-red-500' : 'text-green-600'}`}>
+                              {change > 0 ? '+' : ''}{(change * 100).toLocaleString('pt-BR', { maximumFractionDigits: 1 })}%
+                            </p>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              {entries.length > MAX_ROWS && (
+                <p className="px-3 py-2 text-[10px] text-slate-400">Mostrando {MAX_ROWS} de {entries.length}. Use o filtro para encontrar os demais.</p>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CatalogChangesPanel;
@@ -0,0 +1,121 @@
+import React, { useMemo, useState } from 'react';
+import { CatalogSource } from '../types';
+import { CatalogHealthKind, CatalogHealthReport } from '../services/catalogHealthService';
+import { sourceRowUrl } from '../services/catalogSourceService';
+
+interface CatalogHealthPanelProps {
+  report: CatalogHealthReport;
+  sources: CatalogSource[];
+  quotedProductIds: Set<string>; // Products that appear in the current quotation
+  onShowInQuotation: (productId: string) => void;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<CatalogHealthKind, string> = {
+  invalid_price: 'Preço inválido',
+  missing_price: 'Sem preço',
+  zero_price: 'Preço zero',
+  duplicate_code: 'Código duplicado',
+  empty_title: 'Sem nome',
+  missing_code: 'Sem código',
+};
+
+const KIND_ORDER = Object.keys(KIND_LABELS) as CatalogHealthKind[];
+const MAX_ROWS = 300;
+
+const buttonClass = "border border-slate-300 text-slate-700 px-3 py-2 rounded-lg text-xs font-bold hover:bg-slate-50 transition-colors disabled:opacity-50";
+
+const CatalogHealthPanel: React.FC<CatalogHealthPanelProps> = ({ report, sources, quotedProductIds, onShowInQuotation, onClose }) => {
+  const [kindFilter, setKindFilter] = useState<CatalogHealthKind | null>(null);
+
+  const entries = useMemo(() => {
+    const filtered = kindFilter ? report.entries.filter(e => e.kind === kindFilter) : report.entries;
+    return [...filtered].sort((a, b) =>
+      a.product.sourceName.localeCompare(b.product.sourceName) || a.product.line - b.product.line
+    );
+  }, [report, kindFilter]);
+
+  const sourcesById = useMemo(() => new Map(sources.map(s => [s.id, s])), [sources]);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 no-print space-y-4">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <div>
+          <h2 className="text-base font-bold text-[#1E5FCD]">Qualidade do catálogo</h2>
+          <p className="text-xs text-slate-500 mt-1 font-medium">Linhas das planilhas que precisam de correção. Produtos sem preço aparecem como "sob consulta".</p>
+        </div>
+        <button onClick={onClose} className={buttonClass}>Fechar</button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {KIND_ORDER.map(kind => (
+          <button
+            key={kind}
+            onClick={() => setKindFilter(kindFilter === kind ? null : kind)}
+            disabled={report.counts[kind] === 0}
+            className={`px-3 py-1.5 rounded-lg text-[11px] font-bold border transition-colors disabled:opacity-40 ${kindFilter === kind ? 'border-[#1E5FCD] text-[#1E5FCD] bg-blue-50' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+          >
+            {KIND_LABELS[kind]} <span className="ml-1 text-slate-400">{report.counts[kind]}</span>
+          </button>
+        ))}
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-[11px] text-slate-400 italic">Nenhum problema encontrado.</p>
+      ) : (
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="min-w-full divide-y divide-slate-100">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider">Problema</th>
+                <th className="px-3 py-2 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider">Fonte</th>
+                <th className="px-3 py-2 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider">Linha</th>
+                <th className="px-3 py-2 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider">Código</th>
+                <th className="px-3 py-2 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider">Produto</th>
+                <th className="px-3 py-2 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider">Fornecedor</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {entries.slice(0, MAX_ROWS).map((entry, i) => {
+                const { product } = entry;
+                const source = sourcesById.get(product.sourceId);
+                const url = source ? sourceRowUrl(source, product.row) : null;
+                return (
+                  <tr key={`${entry.kind}-${product.id}-${i}`} className="hover:bg-slate-50">
+                    <td className="px-3 py-2">
+                      <p className="text-[11px] font-bold text-slate-700 whitespace-nowrap">{KIND_LABELS[entry.kind]}</p>
+                      {entry.detail && <p className="text-[9px] text-slate-400">{entry.detail}</p>}
+                    </td>
+                    <td className="px-3 py-2"><p className="text-[11px] text-slate-600">{product.sourceName}</p></td>
+                    <td className="px-3 py-2"><p className="text-[11px] font-mono text-slate-500">{product.line}</p></td>
+                    <td className="px-3 py-2"><p className="text-[11px] font-mono text-slate-500">{product.code}</p></td>
+                    <td className="px-3 py-2"><p className="text-[11px] text-slate-700 max-w-[280px] truncate">{product.title}</p></td>
+                    <td className="px-3 py-2"><p className="text-[11px] text-slate-600">{product.supplier}</p></td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap space-x-2">
+                      {quotedProductIds.has(product.id) && (
+                        <button onClick={() => onShowInQuotation(product.id)} className="text-[10px] font-bold text-[#1E5FCD] hover:underline">
+                          Ver na cotação
+                        </button>
+                      )}
+                      {url && (
+                        <a href={url} target="_blank" rel="noopener noreferrer" className="text-[10px] font-bold text-[#1E5FCD] hover:underline">
+                          Abrir linha
+                        </a>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {entries.length > MAX_ROWS && (
+            <p className="px-3 py-2 text-[10px] text-slate-400">Mostrando {MAX_ROWS} de {entries.length} linhas. Filtre por problema para ver as demais.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CatalogHealthPanel;
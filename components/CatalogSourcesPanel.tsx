@@ -0,0 +1,208 @@
+import React, { useRef, useState } from 'react';
+import { CatalogSource, CatalogSourceKind } from '../types';
+import { createSourceId, extractSheetGid, extractSheetId } from '../services/catalogSourceService';
+import { SourceLoadReport } from '../services/csvService';
+import { CsvIssueKind } from '../services/csvParser';
+import ColumnMappingWizard from './ColumnMappingWizard';
+
+interface CatalogSourcesPanelProps {
+  sources: CatalogSource[];
+  reports: SourceLoadReport[]; // Outcome of the last load, per enabled source
+  isLoading: boolean;
+  saveFailed: boolean;         // The last change could not be stored in the browser
+  onChange: (sources: CatalogSource[]) => void;
+  onReload: () => void;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<CatalogSourceKind, string> = {
+  sheet: 'Planilha Google',
+  url: 'URL de CSV',
+  file: 'Arquivo local',
+};
+
+const ISSUE_LABELS: Record<CsvIssueKind, string> = {
+  malformed: 'Malformada',
+  column_mismatch: 'Colunas',
+  skipped: 'Ignorada',
+};
+
+const DELIMITER_LABELS: Record<string, string> = { ',': 'vírgula', ';': 'ponto e vírgula', '\t': 'tabulação' };
+
+const inputClass = "border border-slate-300 rounded-lg text-xs py-2 px-3 text-slate-700 outline-none focus:border-[#1E5FCD] bg-white";
+const buttonClass = "border border-slate-300 text-slate-700 px-3 py-2 rounded-lg text-xs font-bold hover:bg-slate-50 transition-colors disabled:opacity-50";
+
+const CatalogSourcesPanel: React.FC<CatalogSourcesPanelProps> = ({ sources, reports, isLoading, saveFailed, onChange, onReload, onClose }) => {
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<CatalogSourceKind>('sheet');
+  const [location, setLocation] = useState('');
+  const [expandedReport, setExpandedReport] = useState<string | null>(null);
+  const [mappingSourceId, setMappingSourceId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateSource = (id: string, changes: Partial<CatalogSource>) => {
+    onChange(sources.map(s => (s.id === id ? { ...s, ...changes } : s)));
+  };
+
+  const handleRemove = (source: CatalogSource) => {
+    if (window.confirm(`Remover a fonte "${source.name}"?`)) onChange(sources.filter(s => s.id !== source.id));
+  };
+
+  const handleAdd = () => {
+    const value = kind === 'sheet' ? extractSheetId(location) : location.trim();
+    if (!value) return;
+    const gid = kind === 'sheet' ? extractSheetGid(location) : undefined;
+    onChange([...sources, { id: createSourceId(), name: name.trim() || value, kind, location: value, enabled: true, ...(gid ? { gid } : {}) }]);
+    setName('');
+    setLocation('');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const content = await file.text();
+    onChange([...sources, { id: createSourceId(), name: name.trim() || file.name, kind: 'file', location: file.name, content, enabled: true }]);
+    setName('');
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 no-print space-y-4">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <div>
+          <h2 className="text-base font-bold text-[#1E5FCD]">Fontes do catálogo</h2>
+          <p className="text-xs text-slate-500 mt-1 font-medium">Os produtos de todas as fontes ativas são combinados na busca.</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={onReload} disabled={isLoading} className={buttonClass}>{isLoading ? 'Carregando...' : 'Recarregar catálogo'}</button>
+          <button onClick={onClose} className={buttonClass}>Fechar</button>
+        </div>
+      </div>
+
+      {saveFailed && (
+        <p className="border rounded-lg px-3 py-2 bg-[#FFF8E1] border-amber-200 text-[11px] font-medium text-[#B7791F]">
+          Não foi possível salvar as fontes neste navegador, provavelmente porque um arquivo local é grande demais.
+          Elas valem até a página ser recarregada; depois disso o arquivo precisará ser adicionado de novo.
+        </p>
+      )}
+
+      <div className="divide-y divide-slate-50 border border-slate-100 rounded-lg">
+        {sources.length === 0 && (
+          <p className="px-3 py-3 text-[11px] text-slate-400 italic">Nenhuma fonte cadastrada.</p>
+        )}
+        {sources.map(source => {
+          const report = reports.find(r => r.sourceId === source.id);
+          const issues = report?.parse?.issues || [];
+          const isExpanded = expandedReport === source.id;
+          return (
+            <div key={source.id} className="px-3 py-2">
+              <div className="flex flex-wrap items-center gap-3">
+                <input
+                  type="checkbox"
+                  checked={source.enabled}
+                  onChange={(e) => updateSource(source.id, { enabled: e.target.checked })}
+                  className="w-3.5 h-3.5 accent-[#1E5FCD] cursor-pointer"
+                  title={source.enabled ? 'Desativar fonte' : 'Ativar fonte'}
+                />
+                <input
+                  className={`${inputClass} py-1`}
+                  defaultValue={source.name}
+                  // Committed on blur: every change to the sources reloads the catalog
+                  onBlur={(e) => {
+                    const value = e.target.value.trim();
+                    if (value && value !== source.name) updateSource(source.id, { name: value });
+                  }}
+                />
+                <span className="px-2 py-0.5 rounded-md bg-slate-100 text-[10px] font-bold text-slate-500 uppercase tracking-wider">{KIND_LABELS[source.kind]}</span>
+                <span className="text-[11px] font-mono text-slate-400 truncate max-w-[260px]" title={source.location}>{source.location}</span>
+                <span className="ml-auto text-[11px] text-slate-500">{source.enabled ? `${report?.productCount || 0} produtos` : 'Inativa'}</span>
+                {issues.length > 0 && (
+                  <button
+                    onClick={() => setExpandedReport(isExpanded ? null : source.id)}
+                    className="px-2 py-0.5 rounded-md bg-[#FFF8E1] text-[10px] font-bold text-[#B7791F] hover:bg-amber-100"
+                  >
+                    {issues.length} {issues.length === 1 ? 'problema' : 'problemas'}
+                  </button>
+                )}
+                <button
+                  onClick={() => setMappingSourceId(mappingSourceId === source.id ? null : source.id)}
+                  disabled={!report?.preview}
+                  className={`px-2 py-0.5 rounded-md text-[10px] font-bold transition-colors disabled:opacity-40 ${source.columnMapping ? 'bg-blue-50 text-[#1E5FCD]' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+                  title={report?.preview ? 'Escolher quais colunas formam cada campo do produto' : 'Carregue a fonte para mapear as colunas'}
+                >
+                  {source.columnMapping ? 'Colunas mapeadas' : 'Mapear colunas'}
+                </button>
+                <button
+                  onClick={() => handleRemove(source)}
+                  className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-md transition-colors"
+                  title="Remover fonte"
+                >
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                </button>
+              </div>
+              {source.enabled && report?.error && (
+                <p className="mt-1 text-[11px] font-bold text-red-600">{report.error}</p>
+              )}
+              {source.enabled && report?.parse && (
+                <p className="mt-1 text-[10px] text-slate-400">
+                  Separador: {DELIMITER_LABELS[report.parse.delimiter]} • {report.parse.headerCount} colunas • {report.parse.rowCount} linhas lidas
+                  {report.parse.hadBom ? ' • BOM removido' : ''}
+                </p>
+              )}
+              {isExpanded && (
+                <div className="mt-2 max-h-48 overflow-y-auto border border-slate-100 rounded-lg divide-y divide-slate-50">
+                  {issues.map((issue, i) => (
+                    <div key={i} className="flex items-start gap-3 px-3 py-1.5 text-[10px]">
+                      <span className="font-mono text-slate-400 w-14 shrink-0">linha {issue.line}</span>
+                      <span className="font-bold text-slate-600 w-20 shrink-0">{ISSUE_LABELS[issue.kind]}</span>
+                      <span className="text-slate-600 w-64 shrink-0">{issue.message}{issue.skipped ? ' (ignorada)' : ''}</span>
+                      <span className="font-mono text-slate-400 truncate">{issue.raw}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {mappingSourceId === source.id && report?.preview && (
+                <div className="mt-2">
+                  <ColumnMappingWizard
+                    source={source}
+                    preview={report.preview}
+                    onSave={(mapping) => {
+                      updateSource(source.id, { columnMapping: mapping });
+                      setMappingSourceId(null);
+                    }}
+                    onClose={() => setMappingSourceId(null)}
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <input className={inputClass} placeholder="Nome (ex: Fornecedor X)" value={name} onChange={(e) => setName(e.target.value)} />
+        <select value={kind} onChange={(e) => setKind(e.target.value as CatalogSourceKind)} className={`${inputClass} cursor-pointer`}>
+          {(Object.keys(KIND_LABELS) as CatalogSourceKind[]).map(k => <option key={k} value={k}>{KIND_LABELS[k]}</option>)}
+        </select>
+        {kind === 'file' ? (
+          <>
+            <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>Escolher arquivo CSV</button>
+            <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleFile} />
+          </>
+        ) : (
+          <>
+            <input
+              className={`${inputClass} flex-grow`}
+              placeholder={kind === 'sheet' ? 'ID ou link da planilha publicada' : 'https://.../lista.csv'}
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+            />
+            <button onClick={handleAdd} disabled={!location.trim()} className={buttonClass}>Adicionar</button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CatalogSourcesPanel;
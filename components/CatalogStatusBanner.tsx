@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { SourceLoadReport } from '../services/csvService';
+
+interface CatalogStatusBannerProps {
+  reports: SourceLoadReport[];
+  refreshedAt: number | null; // Last successful fetch in this session
+  isRefreshing: boolean;
+  onRetry: () => void;
+}
+
+const formatAge = (since: number, now: number): string => {
+  const minutes = Math.floor((now - since) / 60000);
+  if (minutes < 1) return 'agora';
+  if (minutes < 60) return `há ${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `há ${hours} h`;
+  const days = Math.floor(hours / 24);
+  return `há ${days} ${days === 1 ? 'dia' : 'dias'}`;
+};
+
+const CatalogStatusBanner: React.FC<CatalogStatusBannerProps> = ({ reports, refreshedAt, isRefreshing, onRetry }) => {
+  const [now, setNow] = useState(Date.now());
+
+  // Keep the age current while the app stays open
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 60000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const failed = reports.filter(r => r.error);
+  const timestamps = reports.filter(r => !r.error || r.cachedAt).map(r => r.cachedAt ?? refreshedAt ?? now);
+  const oldest = timestamps.length > 0 ? Math.min(...timestamps) : null;
+  const fromCache = reports.some(r => r.cachedAt);
+  const productCount = reports.reduce((sum, r) => sum + r.productCount, 0);
+
+  const tone = failed.length > 0
+    ? (productCount > 0 ? 'bg-[#FFF8E1] border-amber-200 text-[#B7791F]' : 'bg-red-50 border-red-200 text-red-700')
+    : 'bg-white border-slate-200 text-slate-500';
+
+  return (
+    <div className={`border rounded-xl px-4 py-3 no-print flex flex-col sm:flex-row sm:items-center gap-3 ${tone}`}>
+      <div className="flex-grow space-y-1">
+        <p className="text-xs font-bold flex items-center gap-2">
+          {isRefreshing && <span className="w-3 h-3 border-2 border-current border-t-transparent rounded-full animate-spin"></span>}
+          {reports.length === 0
+            ? (isRefreshing ? 'Carregando catálogo...' : 'Nenhuma fonte de catálogo ativa.')
+            : `${productCount.toLocaleString('pt-BR')} produtos • atualizado ${oldest !== null ? formatAge(oldest, now) : '—'}`}
+          {fromCache && <span className="font-medium">(cópia offline{isRefreshing ? ', atualizando...' : ''})</span>}
+        </p>
+        {failed.map(r => (
+          <p key={r.sourceId} className="text-[11px] font-medium">
+            {r.sourceName}: {r.error}
+            {r.cachedAt ? ` — usando a cópia de ${formatAge(r.cachedAt, now)}` : ' — sem cópia offline, produtos desta fonte indisponíveis'}
+          </p>
+        ))}
+      </div>
+      {failed.length > 0 && (
+        <button
+          onClick={onRetry}
+          disabled={isRefreshing}
+          className="border border-current px-3 py-2 rounded-lg text-xs font-bold hover:bg-white/60 transition-colors disabled:opacity-50 shrink-0"
+        >
+          Tentar novamente
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default CatalogStatusBanner;
@@ -0,0 +1,153 @@
+import React, { useMemo, useState } from 'react';
+import { CatalogSource, ColumnMapping, MappableField } from '../types';
+import { MAPPABLE_FIELDS, SourceLoadReport, guessColumnMapping, mapProducts } from '../services/csvService';
+
+interface ColumnMappingWizardProps {
+  source: CatalogSource;
+  preview: NonNullable<SourceLoadReport['preview']>;
+  onSave: (mapping: ColumnMapping | undefined) => void; // undefined goes back to automatic detection
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<MappableField, string> = {
+  title: 'Nome do produto',
+  code: 'Código',
+  price: 'Preço',
+  brand: 'Marca',
+  supplier: 'Fornecedor',
+  category: 'Categoria',
+  description: 'Descrição',
+  unit: 'Unidade',
+  stock: 'Estoque',
+};
+
+const REQUIRED_FIELDS: MappableField[] = ['title', 'price'];
+
+const inputClass = "border border-slate-300 rounded-lg text-xs py-2 px-3 text-slate-700 outline-none focus:border-[#1E5FCD] bg-white";
+const buttonClass = "border border-slate-300 text-slate-700 px-3 py-2 rounded-lg text-xs font-bold hover:bg-slate-50 transition-colors disabled:opacity-50";
+
+const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({ source, preview, onSave, onClose }) => {
+  const { headers, rows } = preview;
+  const [mapping, setMapping] = useState<ColumnMapping>(() => source.columnMapping || guessColumnMapping(headers));
+
+  // First non-empty value of each column, to tell similar headers apart
+  const samples = useMemo(() => headers.map((_, i) => {
+    const values = rows.map(r => r[i]).filter(v => v);
+    return values.slice(0, 3);
+  }), [headers, rows]);
+
+  const previewProducts = useMemo(() => mapProducts(preview, { ...source, columnMapping: mapping }), [preview, source, mapping]);
+
+  const missingHeaders = MAPPABLE_FIELDS.filter(f => mapping[f] !== undefined && !headers.includes(mapping[f] as string));
+  const missingRequired = REQUIRED_FIELDS.filter(f => !mapping[f] || missingHeaders.includes(f));
+
+  const assign = (field: MappableField, header: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (header) next[field] = header;
+      else delete next[field];
+      return next;
+    });
+  };
+
+  return (
+    <div className="border border-[#1E5FCD]/30 bg-blue-50/30 rounded-lg p-4 space-y-4">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <div>
+          <h3 className="text-sm font-bold text-[#1E5FCD]">Mapear colunas — {source.name}</h3>
+          <p className="text-[11px] text-slate-500 mt-1 font-medium">
+            {source.columnMapping
+              ? 'Esta fonte usa um mapeamento salvo.'
+              : 'Esta fonte usa a detecção automática pelos nomes das colunas.'}
+            {' '}Indique de qual coluna vem cada campo do produto.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {source.columnMapping && (
+            <button onClick={() => onSave(undefined)} className={buttonClass}>Usar detecção automática</button>
+          )}
+          <button onClick={onClose} className={buttonClass}>Cancelar</button>
+          <button
+            onClick={() => onSave(mapping)}
+            disabled={missingRequired.length > 0}
+            className="bg-[#1E5FCD] text-white px-3 py-2 rounded-lg text-xs font-bold hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            Salvar mapeamento
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+        {MAPPABLE_FIELDS.map(field => (
+          <label key={field} className="flex flex-col gap-1">
+            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+              {FIELD_LABELS[field]}{REQUIRED_FIELDS.includes(field) ? ' *' : ''}
+            </span>
+            <select
+              value={mapping[field] || ''}
+              onChange={(e) => assign(field, e.target.value)}
+              className={`${inputClass} cursor-pointer ${missingHeaders.includes(field) ? 'border-red-400' : ''}`}
+            >
+              <option value="">— Não usar —</option>
+              {missingHeaders.includes(field) && <option value={mapping[field]}>{mapping[field]} (coluna ausente)</option>}
+              {headers.map((header, i) => (
+                <option key={`${header}-${i}`} value={header}>
+                  {header}{samples[i].length > 0 ? ` (ex: ${samples[i][0].slice(0, 30)})` : ''}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+      {missingRequired.length > 0 && (
+        <p className="text-[11px] font-bold text-red-600">
+          Escolha a coluna de: {missingRequired.map(f => FIELD_LABELS[f]).join(', ')}.
+        </p>
+      )}
+
+      <div>
+        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">Colunas detectadas</p>
+        <div className="flex flex-wrap gap-2">
+          {headers.map((header, i) => (
+            <div key={`${header}-${i}`} className="bg-white border border-slate-200 rounded-md px-2 py-1 max-w-[220px]">
+              <p className="text-[11px] font-bold text-slate-700 truncate">{header || `(coluna ${i + 1})`}</p>
+              <p className="text-[10px] text-slate-400 truncate">{samples[i].join(' • ') || 'sem valores'}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">Prévia ({previewProducts.length} primeiras linhas)</p>
+        <div className="overflow-x-auto bg-white border border-slate-200 rounded-lg">
+          <table className="min-w-full divide-y divide-slate-100">
+            <thead className="bg-slate-50">
+              <tr>
+                {MAPPABLE_FIELDS.map(field => (
+                  <th key={field} className="px-3 py-2 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider whitespace-nowrap">{FIELD_LABELS[field]}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {previewProducts.map(p => (
+                <tr key={p.id}>
+                  <td className="px-3 py-2 text-[11px] font-bold text-slate-700 max-w-[240px] truncate">{p.title}</td>
+                  <td className="px-3 py-2 text-[11px] font-mono text-slate-500">{p.code}</td>
+                  <td className="px-3 py-2 text-[11px] text-slate-700 whitespace-nowrap">{p.price === null ? '—' : p.price.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</td>
+                  <td className="px-3 py-2 text-[11px] text-slate-600">{p.brand}</td>
+                  <td className="px-3 py-2 text-[11px] text-slate-600">{p.supplier}</td>
+                  <td className="px-3 py-2 text-[11px] text-slate-600">{p.category}</td>
+                  <td className="px-3 py-2 text-[11px] text-slate-500 max-w-[200px] truncate">{p.description}</td>
+                  <td className="px-3 py-2 text-[11px] text-slate-600">{p.unit}</td>
+                  <td className="px-3 py-2 text-[11px] text-slate-600">{p.stock ?? ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingWizard;
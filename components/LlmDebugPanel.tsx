@@ -0,0 +1,153 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  LLM_PROVIDER_LABELS,
+  LlmCallRecord,
+  LlmProviderId,
+  LlmSettings,
+  clearLlmCalls,
+  getLlmCalls,
+  getLlmSettings,
+  subscribeLlmCalls,
+  updateLlmSettings,
+} from '../services/llmService';
+import { formatDecimal } from '../services/fileExport';
+
+interface LlmDebugPanelProps {
+  onClose: () => void;
+}
+
+const OPERATION_LABELS: Record<LlmCallRecord['operation'], string> = {
+  extract: 'Extração',
+  intent: 'Intenção de busca',
+};
+
+const inputClass = "border border-slate-300 rounded-lg text-xs py-2 px-3 text-slate-700 outline-none focus:border-[#1E5FCD] bg-white";
+const buttonClass = "border border-slate-300 text-slate-700 px-3 py-2 rounded-lg text-xs font-bold hover:bg-slate-50 transition-colors disabled:opacity-50";
+const labelClass = "flex flex-col gap-1 text-[10px] font-bold text-slate-500 uppercase tracking-wider";
+
+const formatTokens = (value?: number) => (value === undefined ? '—' : value.toLocaleString('pt-BR'));
+
+const LlmDebugPanel: React.FC<LlmDebugPanelProps> = ({ onClose }) => {
+  const [settings, setSettings] = useState<LlmSettings>(getLlmSettings);
+  const [calls, setCalls] = useState<LlmCallRecord[]>(getLlmCalls);
+
+  useEffect(() => subscribeLlmCalls(setCalls), []);
+
+  const update = (patch: Partial<LlmSettings>) => setSettings(updateLlmSettings(patch));
+
+  // Integer fields: ignore blanks and negatives while typing
+  const updateNumber = (key: 'timeoutMs' | 'maxRetries' | 'backoffMs', value: string) => {
+    const parsed = parseInt(value);
+    if (Number.isFinite(parsed) && parsed >= 0) update({ [key]: parsed });
+  };
+
+  const totals = useMemo(() => {
+    const failed = calls.filter(c => c.error).length;
+    const latency = calls.length ? calls.reduce((sum, c) => sum + c.latencyMs, 0) / calls.length : 0;
+    const inputTokens = calls.reduce((sum, c) => sum + (c.usage?.inputTokens || 0), 0);
+    const outputTokens = calls.reduce((sum, c) => sum + (c.usage?.outputTokens || 0), 0);
+    return { failed, latency, inputTokens, outputTokens };
+  }, [calls]);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 no-print space-y-4">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <div>
+          <h2 className="text-base font-bold text-[#1E5FCD]">Modelo de IA</h2>
+          <p className="text-xs text-slate-500 mt-1 font-medium">Provedor usado na extração de itens e na análise de busca, e o registro das chamadas desta sessão.</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={clearLlmCalls} disabled={calls.length === 0} className={buttonClass}>Limpar registro</button>
+          <button onClick={onClose} className={buttonClass}>Fechar</button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className={labelClass}>
+          Provedor
+          <select value={settings.provider} onChange={(e) => update({ provider: e.target.value as LlmProviderId })} className={inputClass}>
+            {(Object.keys(LLM_PROVIDER_LABELS) as LlmProviderId[]).map(id => (
+              <option key={id} value={id}>{LLM_PROVIDER_LABELS[id]}</option>
+            ))}
+          </select>
+        </label>
+        <label className={labelClass}>
+          Modelo
+          <input
+            value={settings.model}
+            onChange={(e) => update({ model: e.target.value })}
+            disabled={settings.provider === 'mock'}
+            className={`${inputClass} w-52 disabled:opacity-50`}
+          />
+        </label>
+        <label className={labelClass}>
+          Tempo limite (ms)
+          <input type="number" min={1000} step={1000} value={settings.timeoutMs} onChange={(e) => updateNumber('timeoutMs', e.target.value)} className={`${inputClass} w-28`} />
+        </label>
+        <label className={labelClass}>
+          Novas tentativas
+          <input type="number" min={0} max={5} value={settings.maxRetries} onChange={(e) => updateNumber('maxRetries', e.target.value)} className={`${inputClass} w-24`} />
+        </label>
+        <label className={labelClass}>
+          Espera inicial (ms)
+          <input type="number" min={0} step={100} value={settings.backoffMs} onChange={(e) => updateNumber('backoffMs', e.target.value)} className={`${inputClass} w-28`} />
+        </label>
+      </div>
+      <p className="text-[10px] text-slate-400">
+        A espera dobra a cada nova tentativa. Erros de requisição ou de chave inválida não são repetidos. Se todas as tentativas falharem, a lista é separada pelo leitor local.
+      </p>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {[
+          { label: 'Chamadas', value: calls.length.toLocaleString('pt-BR') },
+          { label: 'Falhas', value: totals.failed.toLocaleString('pt-BR') },
+          { label: 'Latência média', value: `${formatDecimal(totals.latency / 1000)} s` },
+          { label: 'Tokens (entrada / saída)', value: `${formatTokens(totals.inputTokens)} / ${formatTokens(totals.outputTokens)}` },
+        ].map(stat => (
+          <div key={stat.label} className="border border-slate-200 rounded-lg px-3 py-2">
+            <p className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">{stat.label}</p>
+            <p className="text-sm font-bold text-slate-800">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {calls.length === 0 ? (
+        <p className="text-xs text-slate-400">Nenhuma chamada registrada nesta sessão.</p>
+      ) : (
+        <div className="overflow-x-auto border border-slate-200 rounded-lg max-h-80 overflow-y-auto">
+          <table className="min-w-full divide-y divide-slate-100">
+            <thead className="bg-slate-50 sticky top-0">
+              <tr>
+                {['Hora', 'Operação', 'Provedor / modelo', 'Latência', 'Tentativas', 'Tokens entrada', 'Tokens saída', 'Resultado'].map(h => (
+                  <th key={h} className="px-3 py-2 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider whitespace-nowrap">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {calls.map(call => (
+                <tr key={call.id}>
+                  <td className="px-3 py-2 text-[11px] text-slate-500 whitespace-nowrap">{new Date(call.startedAt).toLocaleTimeString('pt-BR')}</td>
+                  <td className="px-3 py-2 text-[11px] text-slate-700 whitespace-nowrap">{OPERATION_LABELS[call.operation]}</td>
+                  <td className="px-3 py-2 text-[11px] text-slate-500 whitespace-nowrap">
+                    {LLM_PROVIDER_LABELS[call.provider]}{call.provider !== 'mock' && ` / ${call.model}`}
+                  </td>
+                  <td className="px-3 py-2 text-[11px] text-slate-700 whitespace-nowrap">{call.latencyMs.toLocaleString('pt-BR')} ms</td>
+                  <td className="px-3 py-2 text-[11px] text-slate-700">{call.attempts}</td>
+                  <td className="px-3 py-2 text-[11px] text-slate-700">{formatTokens(call.usage?.inputTokens)}</td>
+                  <td className="px-3 py-2 text-[11px] text-slate-700">{formatTokens(call.usage?.outputTokens)}</td>
+                  <td className="px-3 py-2 text-[11px] max-w-[320px]">
+                    {call.error
+                      ? <span className="font-bold text-red-600 break-words">{call.error}</span>
+                      : <span className="font-bold text-[#00D17B]">OK</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LlmDebugPanel;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { SourceLine } from '../services/llmService';
+
+interface MissingLinesBannerProps {
+  lines: SourceLine[];
+  onShowLine: (line: number) => void;  // Selects the line in the pasted list
+  onDismiss: () => void;
+}
+
+const MAX_LISTED = 50;
+
+const MissingLinesBanner: React.FC<MissingLinesBannerProps> = ({ lines, onShowLine, onDismiss }) => (
+  <div className="border rounded-xl px-4 py-3 no-print bg-[#FFF8E1] border-amber-200 text-[#B7791F] space-y-2">
+    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+      <p className="text-xs font-bold">
+        {lines.length === 1 ? '1 linha da lista não virou item' : `${lines.length} linhas da lista não viraram item`}
+        <span className="font-medium"> — a IA não devolveu nada para {lines.length === 1 ? 'ela' : 'elas'}. Corrija o texto e gere a cotação de novo.</span>
+      </p>
+      <button
+        onClick={onDismiss}
+        className="border border-current px-3 py-2 rounded-lg text-xs font-bold hover:bg-white/60 transition-colors shrink-0"
+      >
+        Dispensar
+      </button>
+    </div>
+    <ul className="space-y-1 max-h-40 overflow-y-auto">
+      {lines.slice(0, MAX_LISTED).map(({ line, text }) => (
+        <li key={line}>
+          <button onClick={() => onShowLine(line)} className="text-left text-[11px] font-medium hover:underline" title="Mostrar na lista">
+            <span className="font-bold">Linha {line}:</span> {text.trim()}
+          </button>
+        </li>
+      ))}
+    </ul>
+    {lines.length > MAX_LISTED && (
+      <p className="text-[10px] font-medium">E mais {lines.length - MAX_LISTED} linhas.</p>
+    )}
+  </div>
+);
+
+export default MissingLinesBanner;
@@ -3,9 +3,11 @@ import { MappedProduct } from '../types';
 
 interface ProductCardProps {
   product: MappedProduct;
+  quotedQuantity?: number;             // Units of this product already in the quotation
+  onAddToQuote?: (product: MappedProduct) => void;
 }
 
-const ProductCard: React.FC<ProductCardProps> = ({ product }) => {
+const ProductCard: React.FC<ProductCardProps> = ({ product, quotedQuantity = 0, onAddToQuote }) => {
   const formatPrice = (price: number | null) => {
     if (price === null) return 'Preço sob consulta';
     return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(price);
@@ -36,12 +38,26 @@ const ProductCard: React.FC<ProductCardProps> = ({ product }) => {
         <p className="text-sm text-gray-500 line-clamp-3 mb-4 flex-grow">
           {product.description || "Sem descrição disponível."}
         </p>
+
+        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+          {product.code && `Cód. ${product.code} • `}{product.supplier}
+        </p>
         
         <div className="mt-auto pt-4 border-t border-gray-50 flex items-center justify-between">
           <span className="text-xl font-bold text-gray-900">
             {formatPrice(product.price)}
           </span>
-          <button className="bg-blue-600 text-white p-2 rounded-full hover:bg-blue-700 transition-colors shadow-blue-200 shadow-lg">
+          <button
+            onClick={() => onAddToQuote?.(product)}
+            disabled={!onAddToQuote}
+            title={quotedQuantity > 0 ? `Na cotação: ${quotedQuantity} • adicionar mais 1` : 'Adicionar à cotação'}
+            className="relative bg-blue-600 text-white p-2 rounded-full hover:bg-blue-700 transition-colors shadow-blue-200 shadow-lg disabled:opacity-50"
+          >
+            {quotedQuantity > 0 && (
+              <span className="absolute -top-1.5 -right-1.5 min-w-[18px] h-[18px] px-1 rounded-full bg-[#00D17B] text-[10px] font-bold leading-[18px] text-white">
+                {quotedQuantity}
+              </span>
+            )}
             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
               <path d="M3 1a1 1 0 000 2h1.22l.305 1.222a.997.997 0 00.01.042l1.358 5.43-.893.892C3.74 11.846 4.632 14 6.414 14H15a1 1 0 000-2H6.414l1-1H14a1 1 0 00.894-.553l3-6A1 1 0 0017 3H6.28l-.31-1.243A1 1 0 005 1H3zM16 16.5a1.5 1.5 0 11-3 0 1.5 1.5 0 013 0zM6.5 18a1.5 1.5 0 100-3 1.5 1.5 0 000 3z" />
             </svg>
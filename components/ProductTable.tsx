@@ -1,18 +1,140 @@
-
-import React from 'react';
-import { MappedProduct } from '../types';
+import React, { useMemo, useState } from 'react';
+import { MappedProduct, ScoringContext } from '../types';
+import { Lexicon, buildLexicon } from '../services/thesaurusService';
+import { ScoreBreakdown, TokenMatchType, explainMatchScore, normalizeText } from '../services/matchScorer';
+import { ScoringProfile, TOKEN_CLASS_LABELS } from '../services/scoringProfile';
+import { MeasureComparison } from '../services/measureParser';
 
 interface ProductTableProps {
   products: MappedProduct[];
   termIndex: number;
+  term: string;          // The requested line the products were matched against
+  scoredWith?: ScoringContext; // Settings the scores were computed with; absent on older saved quotes
+  lexicon: Lexicon;      // Current settings, used when `scoredWith` is absent
+  profile: ScoringProfile;
   selectedItems: Record<string, number>;
   onToggleSelect: (termIndex: number, productId: string) => void;
   onQuantityChange: (termIndex: number, productId: string, quantity: number) => void;
 }
 
-const ProductTable: React.FC<ProductTableProps> = ({ products, termIndex, selectedItems, onToggleSelect, onQuantityChange }) => {
+const MATCH_TYPE_LABELS: Record<TokenMatchType, string> = {
+  exact: 'Exata',
+  synonym: 'Sinônimo',
+  prefix: 'Prefixo',
+  fuzzy: 'Aproximada',
+  none: 'Não encontrada',
+};
+
+const formatPoints = (value: number) => `${value > 0 ? '+' : value < 0 ? '−' : ''}${Math.abs(Math.round(value)).toLocaleString('pt-BR')}`;
+
+// Title with the words that matched the request in bold
+const HighlightedTitle: React.FC<{ title: string; matched: Set<string> }> = ({ title, matched }) => (
+  <>
+    {title.split(/(\s+)/).map((word, i) => {
+      const hit = normalizeText(word).split(' ').some(token => matched.has(token));
+      return hit ? <mark key={i} className="bg-[#00D17B]/15 text-slate-900 rounded-sm px-0.5">{word}</mark> : word;
+    })}
+  </>
+);
+
+// Requested sizes against the ones in the title
+const MeasureBadges: React.FC<{ comparisons: MeasureComparison[] }> = ({ comparisons }) => (
+  <div className="flex flex-wrap gap-1 mt-1">
+    {comparisons.map((c, i) => {
+      if (c.match === 'match') {
+        return <span key={i} className="px-1.5 py-0.5 rounded bg-[#00D17B]/15 text-[9px] font-bold text-slate-700">{c.found!.label} ✓</span>;
+      }
+      if (c.match === 'mismatch') {
+        return (
+          <span key={i} title={`Pedido: ${c.requested.label}`} className="px-1.5 py-0.5 rounded bg-red-50 text-[9px] font-bold text-red-600">
+            {c.found!.label} (pedido {c.requested.label})
+          </span>
+        );
+      }
+      return <span key={i} className="px-1.5 py-0.5 rounded bg-slate-100 text-[9px] font-bold text-slate-400">{c.requested.label} não informado</span>;
+    })}
+  </div>
+);
+
+const ScoreDetail: React.FC<{ breakdown: ScoreBreakdown }> = ({ breakdown }) => (
+  <div className="bg-slate-50 border border-slate-200 rounded-lg p-3 space-y-2">
+    <table className="min-w-full">
+      <thead>
+        <tr>
+          <th className="pr-3 pb-1 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider">Palavra pedida</th>
+          <th className="pr-3 pb-1 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider">Classe (peso)</th>
+          <th className="pr-3 pb-1 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider">Correspondência</th>
+          <th className="pb-1 text-right text-[9px] font-bold text-slate-400 uppercase tracking-wider">Pontos</th>
+        </tr>
+      </thead>
+      <tbody>
+        {breakdown.tokens.map((t, i) => (
+          <tr key={i}>
+            <td className="pr-3 py-0.5 text-[11px] font-bold text-slate-700">{t.token}</td>
+            <td className="pr-3 py-0.5 text-[11px] text-slate-500">{TOKEN_CLASS_LABELS[t.tokenClass]} ({t.weight.toLocaleString('pt-BR')})</td>
+            <td className={`pr-3 py-0.5 text-[11px] ${t.match === 'none' ? 'text-red-500' : 'text-slate-600'}`}>
+              {MATCH_TYPE_LABELS[t.match]}
+              {t.matchedToken && t.match !== 'exact' && <> com "{t.matchedToken}"</>}
+              {t.distance !== undefined && <> ({t.distance} {t.distance === 1 ? 'letra diferente' : 'letras diferentes'})</>}
+            </td>
+            <td className="py-0.5 text-right text-[11px] font-mono text-slate-700">{formatPoints(t.points)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+    <div className="border-t border-slate-200 pt-2 space-y-0.5">
+      <p className="flex justify-between text-[11px] text-slate-600">
+        <span>
+          Todas as palavras importantes no título
+          {breakdown.missingImportant.length > 0 && <span className="text-red-500"> — faltam: {breakdown.missingImportant.join(', ')}</span>}
+        </span>
+        <span className="font-mono">{formatPoints(breakdown.perfectMatchBonus)}</span>
+      </p>
+      <p className="flex justify-between text-[11px] text-slate-600">
+        <span>
+          Primeira palavra do pedido
+          {breakdown.anchorPosition === 0 ? ' no início do título' : breakdown.anchorPosition > 0 ? ` na posição ${breakdown.anchorPosition + 1} do título` : ' ausente do título'}
+        </span>
+        <span className="font-mono">{formatPoints(breakdown.anchorBonus)}</span>
+      </p>
+      {breakdown.measures.length > 0 && (
+        <p className="flex justify-between text-[11px] text-slate-600">
+          <span>Medidas que conferem ({breakdown.measures.filter(m => m.match === 'match').length} de {breakdown.measures.length})</span>
+          <span className="font-mono">{formatPoints(breakdown.measureBonus)}</span>
+        </p>
+      )}
+      {breakdown.measurePenalty !== 0 && (
+        <p className="flex justify-between text-[11px] text-red-500">
+          <span>Medidas diferentes do pedido</span>
+          <span className="font-mono">{formatPoints(breakdown.measurePenalty)}</span>
+        </p>
+      )}
+      {breakdown.accessoryPenalty !== 0 && (
+        <p className="flex justify-between text-[11px] text-red-500">
+          <span>Acessório (cabo/suporte) não pedido</span>
+          <span className="font-mono">{formatPoints(breakdown.accessoryPenalty)}</span>
+        </p>
+      )}
+      <p className="flex justify-between text-[11px] font-bold text-slate-800 pt-1">
+        <span>Total</span>
+        <span className="font-mono">{Math.round(breakdown.total).toLocaleString('pt-BR')}</span>
+      </p>
+    </div>
+  </div>
+);
+
+const ProductTable: React.FC<ProductTableProps> = ({ products, termIndex, term, scoredWith, lexicon, profile, selectedItems, onToggleSelect, onQuantityChange }) => {
+  const [explainedId, setExplainedId] = useState<string | null>(null);
   const currencyFormatter = (val: number) => new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(val);
 
+  // Explain with the settings of the search, so the parts add up to the score shown
+  const breakdowns = useMemo(() => {
+    const query = scoredWith ? scoredWith.query : term;
+    const scoringLexicon = scoredWith ? buildLexicon(scoredWith.thesaurus) : lexicon;
+    const scoringProfile = scoredWith ? scoredWith.profile : profile;
+    return new Map(products.map(p => [p.id, explainMatchScore(p, query, scoringLexicon, scoringProfile)]));
+  }, [products, term, scoredWith, lexicon, profile]);
+
   return (
     <div className="overflow-x-auto max-h-96 overflow-y-auto">
       <table className="min-w-full divide-y divide-slate-100">
@@ -23,16 +145,20 @@ const ProductTable: React.FC<ProductTableProps> = ({ products, termIndex, select
             <th className="px-3 py-2 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider">Código</th>
             <th className="px-3 py-2 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider">Fornecedor</th>
             <th className="px-3 py-2 text-right text-[9px] font-bold text-slate-400 uppercase tracking-wider">Valor Unit.</th>
+            <th className="px-3 py-2 text-right text-[9px] font-bold text-slate-400 uppercase tracking-wider">Pontuação</th>
             <th className="px-3 py-2 text-center text-[9px] font-bold text-slate-400 uppercase tracking-wider">Qtd</th>
           </tr>
         </thead>
         <tbody className="divide-y divide-slate-50">
           {products.map((product) => {
             const isSelected = selectedItems[product.id] !== undefined;
+            const breakdown = breakdowns.get(product.id)!;
+            const isExplained = explainedId === product.id;
             return (
-              <tr key={product.id} className={`transition-colors ${isSelected ? 'bg-blue-50/50' : 'hover:bg-slate-50'}`}>
+              <React.Fragment key={product.id}>
+              <tr className={`transition-colors ${isSelected ? 'bg-blue-50/50' : 'hover:bg-slate-50'}`}>
                 <td className="px-3 py-3 text-center">
-                  <div 
+                  <div
                     onClick={() => onToggleSelect(termIndex, product.id)}
                     className={`w-3.5 h-3.5 rounded border cursor-pointer flex items-center justify-center transition-colors ${isSelected ? 'bg-[#1E5FCD] border-[#1E5FCD]' : 'bg-white border-slate-300'}`}
                   >
@@ -40,16 +166,33 @@ const ProductTable: React.FC<ProductTableProps> = ({ products, termIndex, select
                   </div>
                 </td>
                 <td className="px-3 py-3">
-                  <p className="text-[11px] font-bold text-slate-700">{product.title}</p>
+                  <p className="text-[11px] font-bold text-slate-700">
+                    <HighlightedTitle title={product.title} matched={new Set(breakdown.matchedTitleTokens)} />
+                  </p>
+                  {breakdown.measures.length > 0 && <MeasureBadges comparisons={breakdown.measures} />}
                 </td>
                 <td className="px-3 py-3">
                   <p className="text-[11px] font-mono text-slate-500">{product.code}</p>
+                  {product.stock !== null && (
+                    <p className={`text-[9px] font-bold ${product.stock > 0 ? 'text-slate-400' : 'text-red-500'}`}>Estoque: {product.stock}</p>
+                  )}
                 </td>
                 <td className="px-3 py-3">
                   <p className="text-[11px] text-slate-600">{product.supplier}</p>
+                  <p className="text-[9px] text-slate-400">{product.sourceName}</p>
                 </td>
                 <td className="px-3 py-3 text-right">
-                  <p className="text-[11px] font-medium text-slate-700">{currencyFormatter(product.price || 0)}</p>
+                  <p className="text-[11px] font-medium text-slate-700">{product.price === null ? 'Sob consulta' : currencyFormatter(product.price)}</p>
+                  {product.unit && <p className="text-[9px] text-slate-400">por {product.unit}</p>}
+                </td>
+                <td className="px-3 py-3 text-right">
+                  <button
+                    onClick={() => setExplainedId(isExplained ? null : product.id)}
+                    title="Ver como a pontuação foi calculada"
+                    className={`text-[11px] font-mono font-bold underline decoration-dotted underline-offset-2 ${isExplained ? 'text-[#1E5FCD]' : 'text-slate-500 hover:text-[#1E5FCD]'}`}
+                  >
+                    {Math.round(product.matchScore ?? breakdown.total).toLocaleString('pt-BR')}
+                  </button>
                 </td>
                 <td className="px-3 py-3 text-center">
                   <input
@@ -62,6 +205,15 @@ const ProductTable: React.FC<ProductTableProps> = ({ products, termIndex, select
                   />
                 </td>
               </tr>
+              {isExplained && (
+                <tr>
+                  <td></td>
+                  <td colSpan={6} className="px-3 pb-3">
+                    <ScoreDetail breakdown={breakdown} />
+                  </td>
+                </tr>
+              )}
+              </React.Fragment>
             );
           })}
         </tbody>
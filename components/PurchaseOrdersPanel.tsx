@@ -0,0 +1,104 @@
+import React, { useMemo, useState } from 'react';
+import { BulkSearchResult, QuotationMap } from '../types';
+import {
+  PurchaseOrder,
+  PurchaseOrderMeta,
+  buildPurchaseOrders,
+  exportPurchaseOrderCsv,
+  exportPurchaseOrdersZip,
+  printPurchaseOrder,
+} from '../services/purchaseOrderService';
+
+interface PurchaseOrdersPanelProps {
+  results: BulkSearchResult[];
+  selections: QuotationMap;
+  quoteName?: string;
+  customer?: string;
+  onClose: () => void;
+}
+
+const buttonClass = "border border-slate-300 text-slate-700 px-3 py-2 rounded-lg text-xs font-bold hover:bg-slate-50 transition-colors disabled:opacity-50";
+
+const currencyFormatter = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' });
+
+const PurchaseOrdersPanel: React.FC<PurchaseOrdersPanelProps> = ({ results, selections, quoteName, customer, onClose }) => {
+  const [error, setError] = useState<string | null>(null);
+  const orders = useMemo(() => buildPurchaseOrders(results, selections), [results, selections]);
+  const total = orders.reduce((sum, o) => sum + o.subtotal, 0);
+  const meta: PurchaseOrderMeta = { quoteName, customer, issuedAt: Date.now() };
+
+  const handlePrint = (order: PurchaseOrder) => {
+    try {
+      setError(null);
+      printPurchaseOrder(order, meta);
+    } catch (err) {
+      console.error("Purchase order print failed:", err);
+      setError("O navegador bloqueou a janela de impressão. Permita pop-ups para este site.");
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 no-print space-y-4">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <div>
+          <h2 className="text-base font-bold text-[#1E5FCD]">Pedidos por fornecedor</h2>
+          <p className="text-xs text-slate-500 mt-1 font-medium">
+            {orders.length} {orders.length === 1 ? 'pedido' : 'pedidos'} • {currencyFormatter.format(total)} no total
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={() => exportPurchaseOrdersZip(orders, meta)} disabled={orders.length === 0} className={buttonClass}>
+            Baixar todos (ZIP)
+          </button>
+          <button onClick={onClose} className={buttonClass}>Fechar</button>
+        </div>
+      </div>
+      {error && <p className="text-[11px] font-bold text-red-600">{error}</p>}
+
+      {orders.length === 0 && <p className="text-[11px] text-slate-400 italic">Nenhum produto selecionado na cotação.</p>}
+
+      {orders.map(order => (
+        <div key={order.supplier} className="border border-slate-200 rounded-lg overflow-hidden">
+          <div className="flex flex-wrap items-center gap-3 px-4 py-3 bg-slate-50 border-b border-slate-200">
+            <div className="flex-grow">
+              <p className="text-sm font-bold text-slate-800">{order.supplier}</p>
+              <p className="text-[10px] text-slate-400">{order.lines.length} {order.lines.length === 1 ? 'item' : 'itens'} • {order.sources.join(', ')}</p>
+            </div>
+            <p className="text-sm font-bold text-slate-900">{currencyFormatter.format(order.subtotal)}</p>
+            <button onClick={() => exportPurchaseOrderCsv(order, meta)} className={buttonClass}>CSV</button>
+            <button onClick={() => handlePrint(order)} className={buttonClass}>Imprimir</button>
+          </div>
+          <table className="min-w-full divide-y divide-slate-100">
+            <thead>
+              <tr>
+                <th className="px-3 py-2 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider">Código</th>
+                <th className="px-3 py-2 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider">Produto</th>
+                <th className="px-3 py-2 text-center text-[9px] font-bold text-slate-400 uppercase tracking-wider">Qtd</th>
+                <th className="px-3 py-2 text-right text-[9px] font-bold text-slate-400 uppercase tracking-wider">Valor Unit.</th>
+                <th className="px-3 py-2 text-right text-[9px] font-bold text-slate-400 uppercase tracking-wider">Valor Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {order.lines.map((line, i) => (
+                <tr key={`${line.code}-${i}`}>
+                  <td className="px-3 py-2"><p className="text-[11px] font-mono text-slate-500">{line.code}</p></td>
+                  <td className="px-3 py-2">
+                    <p className="text-[11px] font-bold text-slate-700">{line.title}</p>
+                    <p className="text-[9px] text-slate-400">{line.term}</p>
+                  </td>
+                  <td className="px-3 py-2 text-center"><p className="text-[11px] text-slate-700">{line.quantity}{line.unit ? ` ${line.unit}` : ''}</p></td>
+                  <td className="px-3 py-2 text-right">
+                    <p className="text-[11px] text-slate-600 whitespace-nowrap">{line.unitPrice === null ? 'Sob consulta' : currencyFormatter.format(line.unitPrice)}</p>
+                  </td>
+                  <td className="px-3 py-2 text-right"><p className="text-[11px] font-bold text-slate-800 whitespace-nowrap">{currencyFormatter.format(line.total)}</p></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PurchaseOrdersPanel;
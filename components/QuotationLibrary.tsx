@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import {
+  SavedQuotation,
+  QuotationVersion,
+  deleteQuotation,
+  duplicateQuotation,
+  listQuotations,
+  listVersions,
+  renameQuotation,
+} from '../services/quotationService';
+
+interface QuotationLibraryProps {
+  currentQuote: SavedQuotation | null;
+  revision: number;   // Bumped by the parent after each save so the list reloads
+  canSave: boolean;
+  canOpen: boolean;   // False while a search is still streaming results
+  onSaveNew: (name: string, customer: string) => Promise<void>;
+  onSaveVersion: () => Promise<void>;
+  onOpen: (quote: SavedQuotation, version: number) => Promise<void>;
+  onQuoteChanged: (quote: SavedQuotation) => void;
+  onQuoteDeleted: (quoteId: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = "border border-slate-300 rounded-lg text-xs py-2 px-3 text-slate-700 outline-none focus:border-[#1E5FCD] bg-white";
+const buttonClass = "border border-slate-300 text-slate-700 px-3 py-2 rounded-lg text-xs font-bold hover:bg-slate-50 transition-colors disabled:opacity-50";
+const linkClass = "text-[10px] font-bold text-[#1E5FCD] hover:underline disabled:opacity-40";
+
+const currencyFormatter = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' });
+const formatDate = (time: number) => new Date(time).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+const QuotationLibrary: React.FC<QuotationLibraryProps> = ({
+  currentQuote, revision, canSave, canOpen, onSaveNew, onSaveVersion, onOpen, onQuoteChanged, onQuoteDeleted, onClose
+}) => {
+  const [quotes, setQuotes] = useState<SavedQuotation[]>([]);
+  const [name, setName] = useState('');
+  const [customer, setCustomer] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editCustomer, setEditCustomer] = useState('');
+  const [versionsFor, setVersionsFor] = useState<string | null>(null);
+  const [versions, setVersions] = useState<QuotationVersion[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setQuotes(await listQuotations());
+    } catch (err) {
+      console.error("Quotation list failed:", err);
+      setError("Não foi possível ler as cotações salvas neste navegador.");
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [revision]);
+
+  // Wraps an action so buttons are disabled while it runs and failures are shown
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      await refresh();
+    } catch (err) {
+      console.error("Quotation action failed:", err);
+      setError(failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSaveNew = () => run(async () => {
+    await onSaveNew(name.trim() || 'Cotação sem nome', customer.trim());
+    setName('');
+    setCustomer('');
+  }, "Não foi possível salvar a cotação.");
+
+  const handleRename = (quote: SavedQuotation) => run(async () => {
+    const updated = await renameQuotation(quote, editName.trim() || quote.name, editCustomer.trim());
+    onQuoteChanged(updated);
+    setEditingId(null);
+  }, "Não foi possível renomear a cotação.");
+
+  const handleDuplicate = (quote: SavedQuotation) => run(async () => {
+    await duplicateQuotation(quote);
+  }, "Não foi possível duplicar a cotação.");
+
+  const handleDelete = (quote: SavedQuotation) => {
+    if (!window.confirm(`Excluir a cotação "${quote.name}" e todas as suas versões?`)) return;
+    run(async () => {
+      await deleteQuotation(quote.id);
+      onQuoteDeleted(quote.id);
+    }, "Não foi possível excluir a cotação.");
+  };
+
+  const toggleVersions = (quote: SavedQuotation) => {
+    if (versionsFor === quote.id) {
+      setVersionsFor(null);
+      return;
+    }
+    setVersionsFor(quote.id);
+    setVersions([]);
+    run(async () => {
+      setVersions(await listVersions(quote.id));
+    }, "Não foi possível ler as versões.");
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 no-print space-y-4">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <div>
+          <h2 className="text-base font-bold text-[#1E5FCD]">Cotações salvas</h2>
+          <p className="text-xs text-slate-500 mt-1 font-medium">Cada salvamento cria uma nova versão. As cotações ficam guardadas neste navegador.</p>
+        </div>
+        <button onClick={onClose} className={buttonClass}>Fechar</button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 items-center">
+        {currentQuote && (
+          <button onClick={() => run(onSaveVersion, "Não foi possível salvar a versão.")} disabled={!canSave || busy} className={buttonClass}>
+            Salvar versão {currentQuote.latestVersion + 1} de "{currentQuote.name}"
+          </button>
+        )}
+        <input className={inputClass} placeholder="Nome da cotação" value={name} onChange={(e) => setName(e.target.value)} />
+        <input className={inputClass} placeholder="Cliente" value={customer} onChange={(e) => setCustomer(e.target.value)} />
+        <button onClick={handleSaveNew} disabled={!canSave || busy} className={buttonClass}>
+          {currentQuote ? 'Salvar como nova' : 'Salvar cotação atual'}
+        </button>
+      </div>
+      {!canSave && <p className="text-[11px] text-slate-400">Gere uma cotação para poder salvá-la.</p>}
+      {error && <p className="text-[11px] font-bold text-red-600">{error}</p>}
+
+      {quotes.length === 0 ? (
+        <p className="text-[11px] text-slate-400 italic">Nenhuma cotação salva.</p>
+      ) : (
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="min-w-full divide-y divide-slate-100">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider">Cotação</th>
+                <th className="px-3 py-2 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider">Cliente</th>
+                <th className="px-3 py-2 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider">Atualizada</th>
+                <th className="px-3 py-2 text-right text-[9px] font-bold text-slate-400 uppercase tracking-wider">Itens</th>
+                <th className="px-3 py-2 text-right text-[9px] font-bold text-slate-400 uppercase tracking-wider">Total</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {quotes.map(quote => (
+                <React.Fragment key={quote.id}>
+                  <tr className={quote.id === currentQuote?.id ? 'bg-blue-50/50' : 'hover:bg-slate-50'}>
+                    {editingId === quote.id ? (
+                      <>
+                        <td className="px-3 py-2"><input className={`${inputClass} py-1 w-full`} value={editName} onChange={(e) => setEditName(e.target.value)} /></td>
+                        <td className="px-3 py-2"><input className={`${inputClass} py-1 w-full`} value={editCustomer} onChange={(e) => setEditCustomer(e.target.value)} /></td>
+                      </>
+                    ) : (
+                      <>
+                        <td className="px-3 py-2">
+                          <p className="text-[11px] font-bold text-slate-700">{quote.name}</p>
+                          <p className="text-[9px] text-slate-400">v{quote.latestVersion} • criada em {formatDate(quote.createdAt)}</p>
+                        </td>
+                        <td className="px-3 py-2"><p className="text-[11px] text-slate-600">{quote.customer || '-'}</p></td>
+                      </>
+                    )}
+                    <td className="px-3 py-2"><p className="text-[11px] text-slate-400 whitespace-nowrap">{formatDate(quote.updatedAt)}</p></td>
+                    <td className="px-3 py-2 text-right"><p className="text-[11px] text-slate-600">{quote.lineCount}</p></td>
+                    <td className="px-3 py-2 text-right"><p className="text-[11px] font-bold text-slate-700 whitespace-nowrap">{currencyFormatter.format(quote.total)}</p></td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap space-x-3">
+                      {editingId === quote.id ? (
+                        <>
+                          <button onClick={() => handleRename(quote)} disabled={busy} className={linkClass}>Salvar</button>
+                          <button onClick={() => setEditingId(null)} className={linkClass}>Cancelar</button>
+                        </>
+                      ) : (
+                        <>
+                          <button onClick={() => run(() => onOpen(quote, quote.latestVersion), "Não foi possível abrir a cotação.")} disabled={busy || !canOpen} className={linkClass}>Abrir</button>
+                          <button onClick={() => toggleVersions(quote)} className={linkClass}>Versões</button>
+                          <button onClick={() => handleDuplicate(quote)} disabled={busy} className={linkClass}>Duplicar</button>
+                          <button
+                            onClick={() => {
+                              setEditingId(quote.id);
+                              setEditName(quote.name);
+                              setEditCustomer(quote.customer);
+                            }}
+                            className={linkClass}
+                          >
+                            Renomear
+                          </button>
+                          <button onClick={() => handleDelete(quote)} disabled={busy} className="text-[10px] font-bold text-red-500 hover:underline disabled:opacity-40">Excluir</button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                  {versionsFor === quote.id && (
+                    <tr className="bg-slate-50/50">
+                      <td colSpan={6} className="px-6 py-2">
+                        {versions.length === 0 ? (
+                          <p className="text-[10px] text-slate-400 italic">Carregando versões...</p>
+                        ) : versions.map(v => (
+                          <div key={v.version} className="flex items-center gap-4 py-1 text-[10px]">
+                            <span className="font-bold text-slate-600 w-10">v{v.version}</span>
+                            <span className="text-slate-400 w-32">{formatDate(v.savedAt)}</span>
+                            <span className="text-slate-500 w-16">{v.snapshot.results.length} itens</span>
+                            <span className="font-bold text-slate-600 w-24 text-right">{currencyFormatter.format(v.total)}</span>
+                            <button onClick={() => run(() => onOpen(quote, v.version), "Não foi possível abrir a versão.")} disabled={busy || !canOpen} className={linkClass}>Abrir esta versão</button>
+                          </div>
+                        ))}
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuotationLibrary;
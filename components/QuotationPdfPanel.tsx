@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { BulkSearchResult, QuotationMap } from '../types';
+import {
+  QuotationDocumentSettings,
+  downloadQuotationPdf,
+  formatQuoteNumber,
+  loadDocumentSettings,
+  saveDocumentSettings,
+} from '../services/quotationPdfService';
+
+interface QuotationPdfPanelProps {
+  results: BulkSearchResult[];
+  selections: QuotationMap;
+  customer?: string;          // From the saved quotation, when there is one
+  onClose: () => void;
+}
+
+const inputClass = "border border-slate-300 rounded-lg text-xs py-2 px-3 text-slate-700 outline-none focus:border-[#1E5FCD] bg-white";
+const labelClass = "flex flex-col gap-1 text-[10px] font-bold text-slate-500 uppercase tracking-wider";
+const buttonClass = "border border-slate-300 text-slate-700 px-3 py-2 rounded-lg text-xs font-bold hover:bg-slate-50 transition-colors disabled:opacity-50";
+
+const toDateInput = (time: number) => {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// Local noon, so the date does not shift with the timezone
+const fromDateInput = (value: string) => new Date(`${value}T12:00:00`).getTime();
+
+const QuotationPdfPanel: React.FC<QuotationPdfPanelProps> = ({ results, selections, customer, onClose }) => {
+  const [settings, setSettings] = useState<QuotationDocumentSettings>(loadDocumentSettings);
+  const [issuedOn, setIssuedOn] = useState(() => toDateInput(Date.now()));
+  const [number, setNumber] = useState(() => formatQuoteNumber(settings.nextNumber, Date.now()));
+  const [customerName, setCustomerName] = useState(customer || '');
+  const [customerDocument, setCustomerDocument] = useState('');
+  const [customerContact, setCustomerContact] = useState('');
+  const [validityDays, setValidityDays] = useState(settings.validityDays);
+  const [paymentTerms, setPaymentTerms] = useState(settings.paymentTerms);
+  const [notes, setNotes] = useState(settings.notes);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateCompany = (patch: Partial<QuotationDocumentSettings>) => setSettings(prev => ({ ...prev, ...patch }));
+
+  const generate = async () => {
+    const issuedAt = fromDateInput(issuedOn);
+    const suggested = formatQuoteNumber(settings.nextNumber, issuedAt);
+    // Conditions become the defaults for the next document
+    const next: QuotationDocumentSettings = {
+      ...settings,
+      validityDays,
+      paymentTerms,
+      notes,
+      nextNumber: number.trim() === suggested ? settings.nextNumber + 1 : settings.nextNumber,
+    };
+    setBusy(true);
+    setError(null);
+    try {
+      await downloadQuotationPdf(results, selections, {
+        number: number.trim() || suggested,
+        customerName: customerName.trim(),
+        customerDocument: customerDocument.trim(),
+        customerContact: customerContact.trim(),
+        issuedAt,
+        validityDays,
+        paymentTerms: paymentTerms.trim(),
+        notes,
+      }, next);
+      saveDocumentSettings(next);
+      setSettings(next);
+      setNumber(formatQuoteNumber(next.nextNumber, issuedAt));
+    } catch (err) {
+      console.error("Quotation PDF failed:", err);
+      setError("Não foi possível gerar o PDF.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 no-print space-y-4">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <div>
+          <h2 className="text-base font-bold text-[#1E5FCD]">Proposta em PDF</h2>
+          <p className="text-xs text-slate-500 mt-1 font-medium">Gera o documento da cotação no navegador com os produtos selecionados em cada linha.</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={generate} disabled={busy || results.length === 0} className="bg-[#1E5FCD] text-white px-3 py-2 rounded-lg text-xs font-bold hover:bg-blue-700 transition-colors disabled:opacity-50">
+            {busy ? 'Gerando...' : 'Gerar PDF'}
+          </button>
+          <button onClick={onClose} className={buttonClass}>Fechar</button>
+        </div>
+      </div>
+      {error && <p className="text-[11px] font-bold text-red-600">{error}</p>}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <label className={labelClass}>
+          Número
+          <input value={number} onChange={(e) => setNumber(e.target.value)} className={inputClass} />
+        </label>
+        <label className={labelClass}>
+          Emissão
+          <input type="date" value={issuedOn} onChange={(e) => e.target.value && setIssuedOn(e.target.value)} className={inputClass} />
+        </label>
+        <label className={labelClass}>
+          Validade (dias)
+          <input type="number" min={1} value={validityDays} onChange={(e) => setValidityDays(Math.max(1, parseInt(e.target.value) || 1))} className={inputClass} />
+        </label>
+        <label className={labelClass}>
+          Cliente
+          <input value={customerName} onChange={(e) => setCustomerName(e.target.value)} placeholder="Razão social" className={inputClass} />
+        </label>
+        <label className={labelClass}>
+          CNPJ / CPF
+          <input value={customerDocument} onChange={(e) => setCustomerDocument(e.target.value)} className={inputClass} />
+        </label>
+        <label className={labelClass}>
+          Contato
+          <input value={customerContact} onChange={(e) => setCustomerContact(e.target.value)} placeholder="Nome, telefone ou e-mail" className={inputClass} />
+        </label>
+        <label className={`${labelClass} md:col-span-3`}>
+          Condições de pagamento
+          <input value={paymentTerms} onChange={(e) => setPaymentTerms(e.target.value)} className={inputClass} />
+        </label>
+        <label className={`${labelClass} md:col-span-3`}>
+          Observações
+          <textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} className={`${inputClass} normal-case tracking-normal font-normal`} />
+        </label>
+      </div>
+
+      <details className="border border-slate-200 rounded-lg px-4 py-3">
+        <summary className="text-[11px] font-bold text-slate-600 cursor-pointer">Dados da empresa no cabeçalho</summary>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-3">
+          <label className={labelClass}>
+            Nome
+            <input value={settings.companyName} onChange={(e) => updateCompany({ companyName: e.target.value })} className={inputClass} />
+          </label>
+          <label className={labelClass}>
+            Endereço, CNPJ, telefone (uma informação por linha)
+            <textarea value={settings.companyDetails} onChange={(e) => updateCompany({ companyDetails: e.target.value })} rows={3} className={`${inputClass} normal-case tracking-normal font-normal`} />
+          </label>
+        </div>
+      </details>
+    </div>
+  );
+};
+
+export default QuotationPdfPanel;
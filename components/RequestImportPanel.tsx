@@ -0,0 +1,215 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ExtractedItem } from '../types';
+import {
+  ImportedFile,
+  REQUEST_FILE_ACCEPT,
+  RequestColumns,
+  buildRequestItems,
+  guessRequestColumns,
+  isSupportedRequestFile,
+  readRequestFile,
+  requestDataRows,
+} from '../services/requestImportService';
+import { columnLetter } from '../services/xlsxWriter';
+
+interface RequestImportPanelProps {
+  file: File | null;           // A file dropped elsewhere on the page, loaded on arrival
+  disabled: boolean;
+  onImport: (items: ExtractedItem[]) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 8;
+
+const inputClass = "border border-slate-300 rounded-lg text-xs py-2 px-3 text-slate-700 outline-none focus:border-[#1E5FCD] bg-white";
+const buttonClass = "border border-slate-300 text-slate-700 px-3 py-2 rounded-lg text-xs font-bold hover:bg-slate-50 transition-colors disabled:opacity-50";
+
+const RequestImportPanel: React.FC<RequestImportPanelProps> = ({ file, disabled, onImport, onClose }) => {
+  const [imported, setImported] = useState<ImportedFile | null>(null);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [columns, setColumns] = useState<RequestColumns | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const rows = imported?.sheets[sheetIndex]?.rows || [];
+
+  const load = async (next: File) => {
+    if (!isSupportedRequestFile(next.name)) {
+      setError("Formato não suportado. Use um arquivo CSV, XLSX ou TXT.");
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await readRequestFile(next);
+      if (result.sheets.length === 0) throw new Error("Empty file");
+      setImported(result);
+      setSheetIndex(0);
+      setColumns(guessRequestColumns(result.sheets[0].rows));
+    } catch (err) {
+      console.error("Request file import failed:", err);
+      setImported(null);
+      setError("Não foi possível ler o arquivo. Verifique se ele não está vazio ou corrompido.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (file) load(file);
+  }, [file]);
+
+  const selectSheet = (index: number) => {
+    setSheetIndex(index);
+    if (imported) setColumns(guessRequestColumns(imported.sheets[index].rows));
+  };
+
+  const width = useMemo(() => Math.max(0, ...rows.map(r => r.length)), [rows]);
+  const headerCells = columns?.headerRow !== null && columns?.headerRow !== undefined ? rows[columns.headerRow] : null;
+  const columnLabel = (c: number) => (headerCells?.[c] ? `${columnLetter(c)} — ${headerCells[c]}` : `Coluna ${columnLetter(c)}`);
+
+  const items = useMemo(() => (columns ? buildRequestItems(rows, columns) : []), [rows, columns]);
+  const previewRows = useMemo(() => (columns ? requestDataRows(rows, columns).slice(0, PREVIEW_ROWS) : []), [rows, columns]);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const dropped = e.dataTransfer.files[0];
+    if (dropped) load(dropped);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 no-print space-y-4">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <div>
+          <h2 className="text-base font-bold text-[#1E5FCD]">Importar lista do pedido</h2>
+          <p className="text-xs text-slate-500 mt-1 font-medium">Planilha CSV, XLSX ou TXT. Escolha as colunas de descrição e quantidade; a lista é usada como está, sem extração por IA.</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => onImport(items)}
+            disabled={disabled || items.length === 0}
+            className="bg-[#1E5FCD] text-white px-3 py-2 rounded-lg text-xs font-bold hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            Gerar cotação com {items.length} {items.length === 1 ? 'item' : 'itens'}
+          </button>
+          <button onClick={onClose} className={buttonClass}>Fechar</button>
+        </div>
+      </div>
+
+      <div
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`border-2 border-dashed rounded-lg px-4 py-5 text-center transition-colors ${isDragging ? 'border-[#1E5FCD] bg-blue-50' : 'border-slate-200 bg-slate-50'}`}
+      >
+        <p className="text-xs text-slate-500 font-medium">
+          {loading ? 'Lendo arquivo...' : imported ? imported.fileName : 'Arraste o arquivo aqui ou'}
+          {!loading && (
+            <button onClick={() => inputRef.current?.click()} className="ml-2 text-[#1E5FCD] font-bold hover:underline">
+              {imported ? 'trocar arquivo' : 'escolha no computador'}
+            </button>
+          )}
+        </p>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={REQUEST_FILE_ACCEPT}
+          className="hidden"
+          onChange={(e) => {
+            const chosen = e.target.files?.[0];
+            if (chosen) load(chosen);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {error && <p className="text-[11px] font-bold text-red-600">{error}</p>}
+
+      {imported && columns && (
+        <>
+          <div className="flex flex-wrap items-end gap-3">
+            {imported.sheets.length > 1 && (
+              <label className="flex flex-col gap-1 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+                Planilha
+                <select value={sheetIndex} onChange={(e) => selectSheet(parseInt(e.target.value))} className={inputClass}>
+                  {imported.sheets.map((s, i) => <option key={i} value={i}>{s.name}</option>)}
+                </select>
+              </label>
+            )}
+            <label className="flex flex-col gap-1 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+              Cabeçalho
+              <select
+                value={columns.headerRow === null ? '' : columns.headerRow}
+                onChange={(e) => setColumns({ ...columns, headerRow: e.target.value === '' ? null : parseInt(e.target.value) })}
+                className={inputClass}
+              >
+                <option value="">Sem cabeçalho</option>
+                {rows.slice(0, 20).map((_, i) => <option key={i} value={i}>Linha {i + 1}</option>)}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+              Descrição
+              <select value={columns.description} onChange={(e) => setColumns({ ...columns, description: parseInt(e.target.value) })} className={inputClass}>
+                {Array.from({ length: width }, (_, c) => <option key={c} value={c}>{columnLabel(c)}</option>)}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+              Quantidade
+              <select
+                value={columns.quantity === null ? '' : columns.quantity}
+                onChange={(e) => setColumns({ ...columns, quantity: e.target.value === '' ? null : parseInt(e.target.value) })}
+                className={inputClass}
+              >
+                <option value="">Sem coluna (1 de cada)</option>
+                {Array.from({ length: width }, (_, c) => <option key={c} value={c}>{columnLabel(c)}</option>)}
+              </select>
+            </label>
+          </div>
+
+          <div className="overflow-x-auto border border-slate-200 rounded-lg">
+            <table className="min-w-full divide-y divide-slate-100">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider">Linha</th>
+                  {Array.from({ length: width }, (_, c) => (
+                    <th
+                      key={c}
+                      className={`px-3 py-2 text-left text-[9px] font-bold uppercase tracking-wider whitespace-nowrap ${c === columns.description || c === columns.quantity ? 'text-[#1E5FCD]' : 'text-slate-400'}`}
+                    >
+                      {columnLabel(c)}
+                      {c === columns.description && ' • descrição'}
+                      {c === columns.quantity && ' • qtd'}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {previewRows.map(({ row, line }) => (
+                  <tr key={line}>
+                    <td className="px-3 py-2 text-[10px] text-slate-400">{line}</td>
+                    {Array.from({ length: width }, (_, c) => (
+                      <td
+                        key={c}
+                        className={`px-3 py-2 text-[11px] max-w-[280px] truncate ${c === columns.description || c === columns.quantity ? 'font-bold text-slate-800 bg-blue-50/50' : 'text-slate-500'}`}
+                      >
+                        {row[c] || ''}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-[10px] text-slate-400">
+            {items.length > PREVIEW_ROWS ? `Mostrando ${PREVIEW_ROWS} de ${items.length} itens.` : `${items.length} ${items.length === 1 ? 'item' : 'itens'}.`}
+            {' '}Linhas sem descrição são ignoradas; quantidades vazias ou inválidas viram 1.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RequestImportPanel;
@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import { LINE_STATUS_LABELS, LineStatus } from '../services/quotationLineService';
+import {
+  EMPTY_LINE_FILTERS,
+  FacetCounts,
+  LineFilters,
+  SCORE_BAND_LABELS,
+  SCORE_BAND_TITLES,
+  ScoreBand,
+  lineFilterChips,
+} from '../services/lineFilterService';
+
+interface ResultFiltersBarProps {
+  filters: LineFilters;
+  counts: FacetCounts;
+  showOptions: boolean;          // Facet options open; chips are always shown
+  visibleLines: number;
+  totalLines: number;
+  formatPrice: (value: number) => string;
+  onChange: (filters: LineFilters) => void;
+}
+
+const inputClass = "border border-slate-300 rounded-lg text-xs py-2 px-3 text-slate-700 outline-none focus:border-[#1E5FCD] bg-white";
+const groupLabelClass = "text-[9px] font-bold text-slate-400 uppercase tracking-wider";
+
+const toggle = <T,>(values: T[], value: T) => (values.includes(value) ? values.filter(v => v !== value) : [...values, value]);
+
+// Accepts "1.234,56" as well as "1234.56"
+const parsePrice = (value: string) => {
+  const parsed = parseFloat(value.includes(',') ? value.replace(/\./g, '').replace(',', '.') : value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+const Pill: React.FC<{ active: boolean; count: number; title?: string; onClick: () => void; children: React.ReactNode }> = ({ active, count, title, onClick, children }) => (
+  <button
+    onClick={onClick}
+    title={title}
+    disabled={!active && count === 0}
+    className={`px-2.5 py-1 rounded-md border text-[10px] font-bold transition-colors disabled:opacity-40 ${active ? 'border-[#1E5FCD] text-[#1E5FCD] bg-blue-50' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+  >
+    {children} <span className="text-slate-400">({count})</span>
+  </button>
+);
+
+const ResultFiltersBar: React.FC<ResultFiltersBarProps> = ({ filters, counts, showOptions, visibleLines, totalLines, formatPrice, onChange }) => {
+  const [minPrice, setMinPrice] = useState('');
+  const [maxPrice, setMaxPrice] = useState('');
+
+  // Keep the inputs in step when a chip clears the range
+  useEffect(() => {
+    if (filters.minPrice === null) setMinPrice('');
+    if (filters.maxPrice === null) setMaxPrice('');
+  }, [filters.minPrice, filters.maxPrice]);
+
+  const chips = lineFilterChips(filters, formatPrice);
+  if (!showOptions && chips.length === 0) return null;
+
+  const applyPrice = () => onChange({ ...filters, minPrice: parsePrice(minPrice), maxPrice: parsePrice(maxPrice) });
+
+  const valueSelect = (key: 'brands' | 'categories', placeholder: string, options: [string, number][]) => (
+    <select
+      value=""
+      onChange={(e) => e.target.value && onChange({ ...filters, [key]: toggle(filters[key], e.target.value) })}
+      className={`${inputClass} max-w-[220px]`}
+    >
+      <option value="">{placeholder}</option>
+      {options.map(([value, count]) => (
+        <option key={value} value={value}>{filters[key].includes(value) ? '✓ ' : ''}{value} ({count})</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="px-6 py-4 border-b border-slate-200 bg-[#F8FAFC] no-print space-y-3">
+      {showOptions && (
+        <div className="flex flex-wrap gap-x-6 gap-y-3 items-start">
+          <div className="space-y-1">
+            <p className={groupLabelClass}>Status</p>
+            <div className="flex flex-wrap gap-1.5">
+              {(Object.keys(LINE_STATUS_LABELS) as LineStatus[]).map(status => (
+                <Pill
+                  key={status}
+                  active={filters.statuses.includes(status)}
+                  count={counts.statuses[status]}
+                  onClick={() => onChange({ ...filters, statuses: toggle(filters.statuses, status) })}
+                >
+                  {LINE_STATUS_LABELS[status]}
+                </Pill>
+              ))}
+              <Pill
+                active={filters.unresolvedOnly}
+                count={counts.unresolved}
+                title="Linhas sem produto ou com quantidade alocada diferente da pedida"
+                onClick={() => onChange({ ...filters, unresolvedOnly: !filters.unresolvedOnly })}
+              >
+                Pendentes
+              </Pill>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <p className={groupLabelClass}>Pontuação</p>
+            <div className="flex flex-wrap gap-1.5">
+              {(Object.keys(SCORE_BAND_LABELS) as ScoreBand[]).map(band => (
+                <Pill
+                  key={band}
+                  active={filters.scoreBands.includes(band)}
+                  count={counts.scoreBands[band]}
+                  title={SCORE_BAND_TITLES[band]}
+                  onClick={() => onChange({ ...filters, scoreBands: toggle(filters.scoreBands, band) })}
+                >
+                  {SCORE_BAND_LABELS[band]}
+                </Pill>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-1">
+            <p className={groupLabelClass}>Marca e categoria</p>
+            <div className="flex flex-wrap gap-1.5">
+              {valueSelect('brands', 'Marca...', counts.brands)}
+              {valueSelect('categories', 'Categoria...', counts.categories)}
+            </div>
+          </div>
+          <div className="space-y-1">
+            <p className={groupLabelClass}>Preço unitário (R$)</p>
+            <form
+              className="flex items-center gap-1.5"
+              onSubmit={(e) => { e.preventDefault(); applyPrice(); }}
+            >
+              <input value={minPrice} onChange={(e) => setMinPrice(e.target.value)} onBlur={applyPrice} placeholder="Mín." inputMode="decimal" className={`${inputClass} w-20`} />
+              <span className="text-[10px] text-slate-400">a</span>
+              <input value={maxPrice} onChange={(e) => setMaxPrice(e.target.value)} onBlur={applyPrice} placeholder="Máx." inputMode="decimal" className={`${inputClass} w-20`} />
+            </form>
+          </div>
+        </div>
+      )}
+
+      {chips.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-[11px] font-bold text-slate-600">
+            {visibleLines} de {totalLines} {totalLines === 1 ? 'linha' : 'linhas'}
+          </span>
+          {chips.map(chip => (
+            <button
+              key={chip.key}
+              onClick={() => onChange(chip.remove(filters))}
+              title="Remover filtro"
+              className="px-2 py-1 rounded bg-blue-50 text-[10px] font-bold text-[#1E5FCD] hover:bg-blue-100 transition-colors"
+            >
+              {chip.label} ✕
+            </button>
+          ))}
+          <button onClick={() => onChange(EMPTY_LINE_FILTERS)} className="text-[10px] font-bold text-slate-500 hover:text-red-600 hover:underline">
+            Limpar filtros
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResultFiltersBar;
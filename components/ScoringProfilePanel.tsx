@@ -0,0 +1,288 @@
+import React, { useRef, useState } from 'react';
+import { MappedProduct } from '../types';
+import { TokenClass } from '../services/matchScorer';
+import { Lexicon } from '../services/thesaurusService';
+import {
+  DEFAULT_SCORING_PROFILE,
+  SCORING_SETTING_LABELS,
+  ScoringProfile,
+  ScoringSetting,
+  TOKEN_CLASS_LABELS,
+  isDefaultScoringProfile,
+} from '../services/scoringProfile';
+import { EvaluationReport, GoldDataset, evaluateProfile, parseCatalogCsv, parseGoldDataset } from '../services/scoringEvaluator';
+
+interface ScoringProfilePanelProps {
+  profile: ScoringProfile;
+  products: MappedProduct[]; // Loaded catalog, used when no catalog file is picked
+  lexicon: Lexicon;
+  onChange: (profile: ScoringProfile) => void;
+  onClose: () => void;
+}
+
+const inputClass = "border border-slate-300 rounded-lg text-xs py-2 px-3 text-slate-700 outline-none focus:border-[#1E5FCD] bg-white";
+const buttonClass = "border border-slate-300 text-slate-700 px-3 py-2 rounded-lg text-xs font-bold hover:bg-slate-50 transition-colors disabled:opacity-50";
+const labelClass = "flex flex-col gap-1 text-[10px] font-bold text-slate-500 uppercase tracking-wider";
+const groupLabelClass = "text-[9px] font-bold text-slate-400 uppercase tracking-wider";
+
+const formatRate = (value: number) => `${(value * 100).toLocaleString('pt-BR', { maximumFractionDigits: 1 })}%`;
+
+// Both profiles run against the same gold set and catalog
+interface Comparison {
+  baseline: EvaluationReport;
+  current: EvaluationReport;
+}
+
+const METRICS: { label: string; title: string; value: (report: EvaluationReport) => number; higherIsBetter: boolean }[] = [
+  { label: 'Acerto no 1º lugar', title: 'Linhas em que o produto esperado ficou em primeiro', value: r => r.top1Accuracy, higherIsBetter: true },
+  { label: 'Entre os 5 primeiros', title: 'Linhas em que o produto esperado aparece entre as 5 primeiras alternativas', value: r => r.recallAt5, higherIsBetter: true },
+  { label: 'Sem candidato', title: 'Linhas em que nenhum produto alcança a pontuação de seleção automática', value: r => r.notFoundRate, higherIsBetter: false },
+];
+
+const ScoringProfilePanel: React.FC<ScoringProfilePanelProps> = ({ profile, products, lexicon, onChange, onClose }) => {
+  const [gold, setGold] = useState<{ name: string; dataset: GoldDataset } | null>(null);
+  const [catalog, setCatalog] = useState<{ name: string; products: MappedProduct[] } | null>(null);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [evaluating, setEvaluating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const goldInputRef = useRef<HTMLInputElement>(null);
+  const catalogInputRef = useRef<HTMLInputElement>(null);
+  // The default profile's report only changes with the gold set, catalog or dictionary
+  const baselineRef = useRef<{ dataset: GoldDataset; catalog: MappedProduct[]; lexicon: Lexicon; report: EvaluationReport } | null>(null);
+
+  // Ignore blanks and negatives while typing
+  const parseScore = (value: string) => {
+    const parsed = parseInt(value);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+  };
+
+  const updateSetting = (key: ScoringSetting, value: string) => {
+    const parsed = parseScore(value);
+    if (parsed !== null) onChange({ ...profile, [key]: parsed });
+  };
+
+  const updateWeight = (tokenClass: TokenClass, value: string) => {
+    const parsed = parseScore(value);
+    if (parsed !== null) onChange({ ...profile, weights: { ...profile.weights, [tokenClass]: parsed } });
+  };
+
+  const readFile = async (e: React.ChangeEvent<HTMLInputElement>, apply: (file: File, text: string) => void) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      apply(file, await file.text());
+      setComparison(null);
+      setError(null);
+    } catch (err) {
+      console.error("Evaluation file failed:", err);
+      setError(`Não foi possível ler "${file.name}". Confira as colunas do arquivo.`);
+    }
+  };
+
+  const evaluationCatalog = catalog ? catalog.products : products;
+
+  const evaluateBaseline = (dataset: GoldDataset) => {
+    const cached = baselineRef.current;
+    if (cached && cached.dataset === dataset && cached.catalog === evaluationCatalog && cached.lexicon === lexicon) return cached.report;
+    const report = evaluateProfile(dataset.cases, evaluationCatalog, DEFAULT_SCORING_PROFILE, lexicon);
+    baselineRef.current = { dataset, catalog: evaluationCatalog, lexicon, report };
+    return report;
+  };
+
+  const handleEvaluate = () => {
+    if (!gold) return;
+    setEvaluating(true);
+    // Let the button show the busy state before the synchronous run
+    setTimeout(() => {
+      try {
+        const baseline = evaluateBaseline(gold.dataset);
+        setComparison({
+          baseline,
+          current: isDefaultScoringProfile(profile) ? baseline : evaluateProfile(gold.dataset.cases, evaluationCatalog, profile, lexicon),
+        });
+      } catch (err) {
+        console.error("Scoring evaluation failed:", err);
+        setError("A avaliação falhou. Tente novamente.");
+      } finally {
+        setEvaluating(false);
+      }
+    }, 0);
+  };
+
+  const isDefault = isDefaultScoringProfile(profile);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 no-print space-y-5">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <div>
+          <h2 className="text-base font-bold text-[#1E5FCD]">Pontuação da busca</h2>
+          <p className="text-xs text-slate-500 mt-1 font-medium">Pesos e limites usados para ordenar os produtos de cada linha. As mudanças valem a partir da próxima cotação.</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={() => onChange(DEFAULT_SCORING_PROFILE)} disabled={isDefault} className={buttonClass}>Restaurar padrão</button>
+          <button onClick={onClose} className={buttonClass}>Fechar</button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className={groupLabelClass}>Limites e bônus</p>
+        <div className="flex flex-wrap items-end gap-3">
+          {(Object.keys(SCORING_SETTING_LABELS) as ScoringSetting[]).map(key => (
+            <label key={key} className={labelClass}>
+              {SCORING_SETTING_LABELS[key]}
+              <input
+                type="number"
+                min={0}
+                step={key === 'measureTolerance' ? 1 : 100}
+                value={profile[key]}
+                onChange={(e) => updateSetting(key, e.target.value)}
+                className={`${inputClass} w-32 ${profile[key] !== DEFAULT_SCORING_PROFILE[key] ? 'border-[#1E5FCD]' : ''}`}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className={groupLabelClass}>Peso por classe de palavra</p>
+        <div className="flex flex-wrap items-end gap-3">
+          {(Object.keys(TOKEN_CLASS_LABELS) as TokenClass[]).map(tokenClass => (
+            <label key={tokenClass} className={labelClass}>
+              {TOKEN_CLASS_LABELS[tokenClass]}
+              <input
+                type="number"
+                min={0}
+                step={50}
+                value={profile.weights[tokenClass]}
+                onChange={(e) => updateWeight(tokenClass, e.target.value)}
+                className={`${inputClass} w-32 ${profile.weights[tokenClass] !== DEFAULT_SCORING_PROFILE.weights[tokenClass] ? 'border-[#1E5FCD]' : ''}`}
+              />
+            </label>
+          ))}
+        </div>
+        <p className="text-[10px] text-slate-400">
+          Cada palavra do pedido soma o peso da sua classe, proporcional à semelhança com o título. Valores alterados ficam destacados em azul.
+        </p>
+      </div>
+
+      <div className="border-t border-slate-100 pt-4 space-y-3">
+        <div>
+          <p className="text-xs font-bold text-slate-700">Avaliar com um conjunto de referência</p>
+          <p className="text-[10px] text-slate-400 mt-0.5">
+            CSV com a linha pedida e o código do produto esperado (colunas "solicitado" e "codigo"; "fornecedor" é opcional). Compara o perfil atual com o padrão.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={() => goldInputRef.current?.click()} className={buttonClass}>
+            {gold ? `Referência: ${gold.name}` : 'Escolher conjunto de referência'}
+          </button>
+          <input
+            ref={goldInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => readFile(e, (file, text) => setGold({ name: file.name, dataset: parseGoldDataset(text) }))}
+          />
+          <button onClick={() => catalogInputRef.current?.click()} className={buttonClass}>
+            {catalog ? `Catálogo: ${catalog.name}` : 'Catálogo CSV (opcional)'}
+          </button>
+          <input
+            ref={catalogInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => readFile(e, (file, text) => setCatalog({ name: file.name, products: parseCatalogCsv(text, file.name) }))}
+          />
+          {catalog && (
+            <button onClick={() => { setCatalog(null); setComparison(null); }} className="text-[10px] font-bold text-slate-500 hover:text-red-600 hover:underline">
+              Usar catálogo carregado
+            </button>
+          )}
+          <button
+            onClick={handleEvaluate}
+            disabled={!gold || gold.dataset.cases.length === 0 || evaluationCatalog.length === 0 || evaluating}
+            className="bg-[#1E5FCD] text-white px-4 py-2 rounded-lg text-xs font-bold hover:bg-[#164BA3] transition-colors disabled:opacity-50"
+          >
+            {evaluating ? 'Avaliando...' : 'Avaliar'}
+          </button>
+        </div>
+        <p className="text-[10px] text-slate-400">
+          {gold ? `${gold.dataset.cases.length} ${gold.dataset.cases.length === 1 ? 'linha' : 'linhas'} de referência` : 'Nenhum conjunto escolhido'}
+          {gold && gold.dataset.skipped > 0 && ` (${gold.dataset.skipped} sem pedido ou código ignoradas)`}
+          {' · '}
+          {evaluationCatalog.length.toLocaleString('pt-BR')} produtos {catalog ? 'no arquivo' : 'no catálogo carregado'}
+        </p>
+        {error && <p className="text-[11px] font-bold text-red-600">{error}</p>}
+
+        {comparison && (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              {METRICS.map(metric => {
+                const baseline = metric.value(comparison.baseline);
+                const current = metric.value(comparison.current);
+                const better = metric.higherIsBetter ? current > baseline : current < baseline;
+                const worse = metric.higherIsBetter ? current < baseline : current > baseline;
+                return (
+                  <div key={metric.label} title={metric.title} className="border border-slate-200 rounded-lg px-3 py-2">
+                    <p className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">{metric.label}</p>
+                    <p className="text-sm font-bold text-slate-800">
+                      {formatRate(current)}
+                      <span className={`ml-2 text-[10px] ${better ? 'text-[#00D17B]' : worse ? 'text-red-600' : 'text-slate-400'}`}>
+                        padrão {formatRate(baseline)}
+                      </span>
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+            {comparison.current.evaluated < comparison.current.cases.length && (
+              <p className="text-[10px] text-[#B7791F]">
+                {comparison.current.cases.length - comparison.current.evaluated} linhas esperam um código que não está no catálogo e ficaram fora das taxas.
+              </p>
+            )}
+
+            <div className="overflow-x-auto border border-slate-200 rounded-lg max-h-80 overflow-y-auto">
+              <table className="min-w-full divide-y divide-slate-100">
+                <thead className="bg-slate-50 sticky top-0">
+                  <tr>
+                    {['Linha', 'Pedido', 'Esperado', 'Posição (padrão → atual)', '1º colocado (atual)'].map(h => (
+                      <th key={h} className="px-3 py-2 text-left text-[9px] font-bold text-slate-400 uppercase tracking-wider whitespace-nowrap">{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50">
+                  {comparison.current.cases.map((result, i) => {
+                    const before = comparison.baseline.cases[i].rank;
+                    const after = result.rank;
+                    const changed = before !== after;
+                    return (
+                      <tr key={result.gold.line} className={result.inCatalog ? '' : 'opacity-50'}>
+                        <td className="px-3 py-2 text-[11px] text-slate-500">{result.gold.line}</td>
+                        <td className="px-3 py-2 text-[11px] text-slate-700">{result.gold.request}</td>
+                        <td className="px-3 py-2 text-[11px] font-mono text-slate-500 whitespace-nowrap">
+                          {result.gold.expectedCode}
+                          {!result.inCatalog && <span className="ml-1 font-sans text-[10px] text-[#B7791F]">fora do catálogo</span>}
+                        </td>
+                        <td className={`px-3 py-2 text-[11px] font-bold whitespace-nowrap ${!changed ? 'text-slate-500' : (after ?? Infinity) < (before ?? Infinity) ? 'text-[#00D17B]' : 'text-red-600'}`}>
+                          {before ?? '—'} → {after ?? '—'}
+                        </td>
+                        <td className="px-3 py-2 text-[11px] font-mono text-slate-500 whitespace-nowrap">
+                          {result.topCode === undefined
+                            ? 'Nenhum'
+                            : `${result.topCode} (${Math.round(result.topScore || 0).toLocaleString('pt-BR')})`}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScoringProfilePanel;
@@ -0,0 +1,235 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  ThesaurusOverrides,
+  WordClass,
+  medicalThesaurus,
+  buildLexicon,
+  getWordClass,
+  exportThesaurusOverrides,
+  importThesaurusOverrides,
+  EMPTY_OVERRIDES,
+} from '../services/thesaurusService';
+import { normalizeText } from '../services/matchScorer';
+
+interface ThesaurusEditorProps {
+  overrides: ThesaurusOverrides;
+  onChange: (overrides: ThesaurusOverrides) => void;
+  onClose: () => void;
+}
+
+const WORD_CLASS_LABELS: Record<WordClass, string> = {
+  stop: 'Irrelevante',
+  category: 'Categoria',
+  modifier: 'Modificador',
+  specific: 'Nome específico',
+};
+
+const inputClass = "border border-slate-300 rounded-lg text-xs py-2 px-3 text-slate-700 outline-none focus:border-[#1E5FCD] bg-white";
+const buttonClass = "border border-slate-300 text-slate-700 px-3 py-2 rounded-lg text-xs font-bold hover:bg-slate-50 transition-colors disabled:opacity-50";
+
+const ThesaurusEditor: React.FC<ThesaurusEditorProps> = ({ overrides, onChange, onClose }) => {
+  const [filter, setFilter] = useState('');
+  const [canonicalInput, setCanonicalInput] = useState('');
+  const [variantInput, setVariantInput] = useState('');
+  const [abbrevFrom, setAbbrevFrom] = useState('');
+  const [abbrevTo, setAbbrevTo] = useState('');
+  const [classWord, setClassWord] = useState('');
+  const [classValue, setClassValue] = useState<WordClass>('stop');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const lexicon = useMemo(() => buildLexicon(overrides), [overrides]);
+
+  const canonicalTerms = useMemo(() => {
+    const terms = Array.from(new Set([...Object.keys(medicalThesaurus), ...Object.keys(overrides.synonyms)])).sort();
+    const needle = normalizeText(filter);
+    if (!needle) return terms;
+    return terms.filter(term => term.includes(needle) || (lexicon.synonyms[term] || []).some(v => v.includes(needle)));
+  }, [overrides, lexicon, filter]);
+
+  const handleAddVariant = () => {
+    const canonical = normalizeText(canonicalInput);
+    const variants = variantInput.split(',').map(normalizeText).filter(Boolean);
+    if (!canonical) return;
+    const current = overrides.synonyms[canonical] || [];
+    onChange({
+      ...overrides,
+      synonyms: { ...overrides.synonyms, [canonical]: Array.from(new Set([...current, ...variants])) },
+    });
+    setVariantInput('');
+  };
+
+  const handleRemoveVariant = (canonical: string, variant: string) => {
+    const remaining = (overrides.synonyms[canonical] || []).filter(v => v !== variant);
+    const synonyms = { ...overrides.synonyms };
+    if (remaining.length > 0 || !medicalThesaurus[canonical]) synonyms[canonical] = remaining;
+    else delete synonyms[canonical];
+    onChange({ ...overrides, synonyms });
+  };
+
+  const handleRemoveCanonical = (canonical: string) => {
+    const synonyms = { ...overrides.synonyms };
+    delete synonyms[canonical];
+    onChange({ ...overrides, synonyms });
+  };
+
+  const handleAddAbbreviation = () => {
+    const from = abbrevFrom.trim().toLowerCase();
+    const to = abbrevTo.trim().toLowerCase();
+    if (!normalizeText(from) || !normalizeText(to)) return;
+    onChange({ ...overrides, abbreviations: { ...overrides.abbreviations, [from]: to } });
+    setAbbrevFrom('');
+    setAbbrevTo('');
+  };
+
+  const handleRemoveAbbreviation = (from: string) => {
+    const abbreviations = { ...overrides.abbreviations };
+    delete abbreviations[from];
+    onChange({ ...overrides, abbreviations });
+  };
+
+  const handleSetClass = () => {
+    const word = normalizeText(classWord);
+    if (!word || word.includes(' ')) return;
+    onChange({ ...overrides, wordClasses: { ...overrides.wordClasses, [word]: classValue } });
+    setClassWord('');
+  };
+
+  const handleRemoveClass = (word: string) => {
+    const wordClasses = { ...overrides.wordClasses };
+    delete wordClasses[word];
+    onChange({ ...overrides, wordClasses });
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(exportThesaurusOverrides(overrides));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'dicionario_atec_medical.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange(await importThesaurusOverrides(file));
+      setImportError(null);
+    } catch (err) {
+      console.error("Thesaurus import failed:", err);
+      setImportError("Não foi possível importar o arquivo. Verifique se é um JSON exportado por este sistema.");
+    }
+  };
+
+  const handleReset = () => {
+    if (window.confirm("Remover todas as alterações e voltar ao dicionário padrão?")) onChange(EMPTY_OVERRIDES);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 no-print space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <div>
+          <h2 className="text-base font-bold text-[#1E5FCD]">Dicionário de sinônimos</h2>
+          <p className="text-xs text-slate-500 mt-1 font-medium">Alterações são salvas neste navegador e aplicadas na próxima cotação.</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={handleExport} className={buttonClass}>Exportar JSON</button>
+          <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>Importar JSON</button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          <button onClick={handleReset} className={`${buttonClass} hover:text-red-600`}>Restaurar padrão</button>
+          <button onClick={onClose} className={buttonClass}>Fechar</button>
+        </div>
+      </div>
+      {importError && <p className="text-xs font-bold text-red-600">{importError}</p>}
+
+      {/* Synonyms */}
+      <section>
+        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-3">Termos e variantes</h3>
+        <div className="flex flex-wrap gap-2 mb-3">
+          <input className={inputClass} placeholder="Termo canônico (ex: volkmann)" value={canonicalInput} onChange={(e) => setCanonicalInput(e.target.value)} />
+          <input className={`${inputClass} flex-grow`} placeholder="Variantes separadas por vírgula (ex: wulkman, vulkman)" value={variantInput} onChange={(e) => setVariantInput(e.target.value)} />
+          <button onClick={handleAddVariant} disabled={!normalizeText(canonicalInput)} className={buttonClass}>Adicionar</button>
+        </div>
+        <input className={`${inputClass} w-full mb-3`} placeholder="Filtrar termos..." value={filter} onChange={(e) => setFilter(e.target.value)} />
+        <div className="max-h-64 overflow-y-auto divide-y divide-slate-50 border border-slate-100 rounded-lg">
+          {canonicalTerms.map(term => {
+            const builtIn = medicalThesaurus[term] || [];
+            const added = overrides.synonyms[term] || [];
+            return (
+              <div key={term} className="flex flex-wrap items-center gap-1.5 px-3 py-2">
+                <button onClick={() => setCanonicalInput(term)} className="text-[11px] font-bold text-slate-800 mr-2 hover:text-[#1E5FCD]">{term}</button>
+                {builtIn.filter(v => v !== term).map(v => (
+                  <span key={v} className="px-2 py-0.5 rounded-md bg-slate-100 text-[10px] text-slate-500">{v}</span>
+                ))}
+                {added.filter(v => !builtIn.includes(v)).map(v => (
+                  <span key={v} className="px-2 py-0.5 rounded-md bg-blue-50 text-[10px] font-bold text-[#1E5FCD] flex items-center gap-1">
+                    {v}
+                    <button onClick={() => handleRemoveVariant(term, v)} className="hover:text-red-600" title="Remover variante">×</button>
+                  </span>
+                ))}
+                {!medicalThesaurus[term] && (
+                  <button onClick={() => handleRemoveCanonical(term)} className="ml-auto text-[10px] font-bold text-slate-400 hover:text-red-600">Remover termo</button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </section>
+
+      {/* Abbreviations */}
+      <section>
+        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-3">Abreviações</h3>
+        <div className="flex flex-wrap gap-2 mb-3">
+          <input className={inputClass} placeholder='Abreviação (ex: p/ agulha)' value={abbrevFrom} onChange={(e) => setAbbrevFrom(e.target.value)} />
+          <input className={`${inputClass} flex-grow`} placeholder='Expansão (ex: porta agulha)' value={abbrevTo} onChange={(e) => setAbbrevTo(e.target.value)} />
+          <button onClick={handleAddAbbreviation} disabled={!normalizeText(abbrevFrom) || !normalizeText(abbrevTo)} className={buttonClass}>Adicionar</button>
+        </div>
+        {Object.keys(overrides.abbreviations).length === 0 ? (
+          <p className="text-[11px] text-slate-400 italic">Nenhuma abreviação cadastrada.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {Object.entries(overrides.abbreviations).map(([from, to]) => (
+              <span key={from} className="px-2.5 py-1 rounded-md bg-slate-100 text-[11px] text-slate-700 flex items-center gap-1.5">
+                <span className="font-mono">{from}</span> → <span className="font-bold">{to}</span>
+                <button onClick={() => handleRemoveAbbreviation(from)} className="text-slate-400 hover:text-red-600" title="Remover abreviação">×</button>
+              </span>
+            ))}
+          </div>
+        )}
+      </section>
+
+      {/* Word classes */}
+      <section>
+        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-3">Classes de palavras</h3>
+        <div className="flex flex-wrap gap-2 mb-3 items-center">
+          <input className={inputClass} placeholder="Palavra (ex: kit)" value={classWord} onChange={(e) => setClassWord(e.target.value)} />
+          {normalizeText(classWord) && (
+            <span className="text-[11px] text-slate-500">Atual: <b>{WORD_CLASS_LABELS[getWordClass(lexicon, normalizeText(classWord))]}</b></span>
+          )}
+          <select value={classValue} onChange={(e) => setClassValue(e.target.value as WordClass)} className={`${inputClass} cursor-pointer`}>
+            {(Object.keys(WORD_CLASS_LABELS) as WordClass[]).map(c => <option key={c} value={c}>{WORD_CLASS_LABELS[c]}</option>)}
+          </select>
+          <button onClick={handleSetClass} disabled={!normalizeText(classWord)} className={buttonClass}>Mover</button>
+        </div>
+        {Object.keys(overrides.wordClasses).length === 0 ? (
+          <p className="text-[11px] text-slate-400 italic">Nenhuma palavra reclassificada.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {Object.keys(overrides.wordClasses).map(word => (
+              <span key={word} className="px-2.5 py-1 rounded-md bg-slate-100 text-[11px] text-slate-700 flex items-center gap-1.5">
+                <span className="font-bold">{word}</span> → {WORD_CLASS_LABELS[overrides.wordClasses[word]]}
+                <button onClick={() => handleRemoveClass(word)} className="text-slate-400 hover:text-red-600" title="Desfazer">×</button>
+              </span>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default ThesaurusEditor;
@@ -0,0 +1,73 @@
+import { MappedProduct } from '../types';
+import { normalizeText } from './matchScorer';
+
+// A product the user picked by hand for a requested term
+export interface LearnedAlias {
+  term: string;      // Requested term as typed the last time it was confirmed
+  code: string;
+  supplier: string;
+  title: string;     // Product title at the time, shown when reviewing aliases
+  updatedAt: number;
+}
+
+// normalized requested term -> confirmed product
+export type AliasStore = Record<string, LearnedAlias>;
+
+const STORAGE_KEY = 'atec.aliases.v1';
+
+export const aliasKey = (term: string): string => normalizeText(term);
+
+export const rememberAlias = (store: AliasStore, term: string, product: MappedProduct): AliasStore => {
+  const key = aliasKey(term);
+  if (!key) return store;
+  return {
+    ...store,
+    [key]: { term, code: product.code, supplier: product.supplier, title: product.title, updatedAt: Date.now() },
+  };
+};
+
+export const forgetAlias = (store: AliasStore, key: string): AliasStore => {
+  const next = { ...store };
+  delete next[key];
+  return next;
+};
+
+export const findAlias = (store: AliasStore, term: string): LearnedAlias | undefined => store[aliasKey(term)];
+
+const isText = (value: unknown): value is string => typeof value === 'string';
+
+// Keeps the entries that still name a product; anything else in storage is dropped
+const parseAliases = (raw: unknown): AliasStore => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+  const store: AliasStore = {};
+  Object.entries(raw as Record<string, unknown>).forEach(([key, value]) => {
+    const entry = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+    if (!isText(entry.code) || !isText(entry.supplier) || !entry.code) return;
+    store[key] = {
+      term: isText(entry.term) ? entry.term : key,
+      code: entry.code,
+      supplier: entry.supplier,
+      title: isText(entry.title) ? entry.title : '',
+      updatedAt: typeof entry.updatedAt === 'number' ? entry.updatedAt : 0,
+    };
+  });
+  return store;
+};
+
+export const loadAliases = (): AliasStore => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseAliases(JSON.parse(stored)) : {};
+  } catch (error) {
+    console.error("Alias load failed:", error);
+    return {};
+  }
+};
+
+export const saveAliases = (store: AliasStore) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (error) {
+    console.error("Alias save failed:", error);
+  }
+};
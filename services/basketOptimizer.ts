@@ -0,0 +1,170 @@
+import { BulkSearchResult, MappedProduct, QuotationMap } from '../types';
+import { LineAllocation, allocatedQuantity, allocationsTotal, getLineAllocations } from './quotationLineService';
+
+export type OptimizerGoal = 'cheapest' | 'fewest_suppliers' | 'balanced';
+
+export interface OptimizerOptions {
+  goal: OptimizerGoal;
+  minScore: number;        // Candidates below this matchScore are never proposed
+  supplierCost: number;    // 'balanced': R$ an extra supplier must save to be worth it
+}
+
+export interface ProposedLine {
+  index: number;
+  term: string;
+  quantity: number;
+  current: LineAllocation[];
+  proposed: MappedProduct;
+  currentCost: number;
+  proposedCost: number;
+}
+
+export interface BasketProposal {
+  lines: ProposedLine[];   // Only lines whose pick changes
+  currentTotal: number;
+  proposedTotal: number;
+  currentSuppliers: number;
+  proposedSuppliers: number;
+}
+
+// A line the optimizer may re-source, with its acceptable priced candidates
+interface OpenLine {
+  index: number;
+  quantity: number;
+  candidates: MappedProduct[]; // Cheapest first
+}
+
+const cheapestFrom = (line: OpenLine, suppliers: Set<string>) => line.candidates.find(p => suppliers.has(p.supplier));
+
+// Greedy set cover: keep adding the supplier that covers most remaining lines, cheapest on ties
+const coverWithFewestSuppliers = (lines: OpenLine[], fixed: Set<string>): Set<string> => {
+  const chosen = new Set(fixed);
+  let uncovered = lines.filter(l => !cheapestFrom(l, chosen));
+  while (uncovered.length > 0) {
+    const stats = new Map<string, { lines: number; cost: number }>();
+    uncovered.forEach(line => {
+      const seen = new Set<string>();
+      line.candidates.forEach(p => {
+        if (seen.has(p.supplier)) return;
+        seen.add(p.supplier);
+        const entry = stats.get(p.supplier) || { lines: 0, cost: 0 };
+        entry.lines++;
+        entry.cost += (p.price || 0) * line.quantity;
+        stats.set(p.supplier, entry);
+      });
+    });
+    let best: string | null = null;
+    stats.forEach((entry, supplier) => {
+      const current = best ? stats.get(best)! : null;
+      if (!current || entry.lines > current.lines || (entry.lines === current.lines && entry.cost < current.cost)) best = supplier;
+    });
+    if (!best) break;
+    chosen.add(best);
+    uncovered = uncovered.filter(l => !cheapestFrom(l, chosen));
+  }
+  return chosen;
+};
+
+/**
+ * Starts from the cheapest pick per line and drops suppliers one at a time
+ * while moving their lines elsewhere costs less than `supplierCost`.
+ */
+const balanceSuppliers = (lines: OpenLine[], fixed: Set<string>, supplierCost: number): Set<string> => {
+  const chosen = new Set(fixed);
+  lines.forEach(l => chosen.add(l.candidates[0].supplier));
+
+  for (;;) {
+    let bestSupplier: string | null = null;
+    let bestDelta = supplierCost;
+    chosen.forEach(supplier => {
+      if (fixed.has(supplier)) return;
+      const remaining = new Set(chosen);
+      remaining.delete(supplier);
+      let delta = 0;
+      for (const line of lines) {
+        const before = cheapestFrom(line, chosen);
+        const after = cheapestFrom(line, remaining);
+        if (!after) return; // Some line can only be bought from this supplier
+        delta += ((after.price || 0) - (before?.price || 0)) * line.quantity;
+      }
+      if (delta < bestDelta) {
+        bestDelta = delta;
+        bestSupplier = supplier;
+      }
+    });
+    if (!bestSupplier) return chosen;
+    chosen.delete(bestSupplier);
+  }
+};
+
+/**
+ * Proposes one product per line for the chosen goal. Lines the user split
+ * across several products, or picked an unpriced product for, are left alone,
+ * and their suppliers count as already in the basket. Lines the user emptied
+ * stay empty. Lines with no priced candidate above `minScore` keep their
+ * current pick.
+ */
+export const optimizeBasket = (results: BulkSearchResult[], selections: QuotationMap, options: OptimizerOptions): BasketProposal => {
+  const currentByLine = results.map((result, idx) => getLineAllocations(result, selections[idx]));
+  const fixed = new Set<string>();
+  const open: OpenLine[] = [];
+
+  results.forEach((result, idx) => {
+    const current = currentByLine[idx];
+    if (selections[idx] && current.length === 0) return;
+    // An unpriced pick costs nothing in the total, so replacing it would look like a loss
+    if (current.length > 1 || current.some(a => !(a.product.price && a.product.price > 0))) {
+      current.forEach(a => fixed.add(a.product.supplier));
+      return;
+    }
+    const candidates = result.products
+      .filter(p => (p.matchScore || 0) >= options.minScore && p.price !== null && p.price > 0)
+      .sort((a, b) => (a.price as number) - (b.price as number) || (b.matchScore || 0) - (a.matchScore || 0));
+    if (candidates.length === 0) {
+      current.forEach(a => fixed.add(a.product.supplier));
+      return;
+    }
+    open.push({ index: idx, quantity: current.length > 0 ? allocatedQuantity(current) : result.detectedQuantity, candidates });
+  });
+
+  let suppliers: Set<string> | null = null;
+  if (options.goal === 'fewest_suppliers') suppliers = coverWithFewestSuppliers(open, fixed);
+  else if (options.goal === 'balanced') suppliers = balanceSuppliers(open, fixed, options.supplierCost);
+
+  const openByIndex = new Map(open.map(line => [line.index, line]));
+  const picks = new Map<number, MappedProduct>();
+  open.forEach(line => picks.set(line.index, (suppliers && cheapestFrom(line, suppliers)) || line.candidates[0]));
+
+  const lines: ProposedLine[] = [];
+  let currentTotal = 0;
+  let proposedTotal = 0;
+  const currentSuppliers = new Set<string>();
+  const proposedSuppliers = new Set<string>();
+
+  results.forEach((result, idx) => {
+    const current = currentByLine[idx];
+    const currentCost = allocationsTotal(current);
+    current.forEach(a => currentSuppliers.add(a.product.supplier));
+    currentTotal += currentCost;
+
+    const line = openByIndex.get(idx);
+    const proposed = picks.get(idx);
+    if (!line || !proposed || (current.length === 1 && current[0].product.id === proposed.id)) {
+      current.forEach(a => proposedSuppliers.add(a.product.supplier));
+      proposedTotal += currentCost;
+      return;
+    }
+    const proposedCost = (proposed.price || 0) * line.quantity;
+    proposedSuppliers.add(proposed.supplier);
+    proposedTotal += proposedCost;
+    lines.push({ index: idx, term: result.term, quantity: line.quantity, current, proposed, currentCost, proposedCost });
+  });
+
+  return {
+    lines,
+    currentTotal,
+    proposedTotal,
+    currentSuppliers: currentSuppliers.size,
+    proposedSuppliers: proposedSuppliers.size,
+  };
+};
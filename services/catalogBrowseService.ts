@@ -0,0 +1,49 @@
+import { MappedProduct, SearchIntent, SortOption } from '../types';
+import { normalizeText } from './matchScorer';
+
+export const SORT_OPTION_LABELS: Record<SortOption, string> = {
+  [SortOption.Relevance]: 'Relevância',
+  [SortOption.PriceLowHigh]: 'Menor preço',
+  [SortOption.PriceHighLow]: 'Maior preço',
+  [SortOption.NameAZ]: 'Nome (A-Z)',
+};
+
+// Text sent to the search index: the intent's keywords, or the raw query when it has none
+export const intentQuery = (intent: SearchIntent, fallback: string) => {
+  const keywords = intent.keywords.map(k => k.trim()).filter(Boolean);
+  return keywords.length > 0 ? keywords.join(' ') : fallback.trim();
+};
+
+/**
+ * Keeps the products inside the intent's price range and category. Products
+ * without a price are left out as soon as a price limit is set.
+ */
+export const applyIntentFilters = (products: MappedProduct[], intent: SearchIntent): MappedProduct[] => {
+  const category = intent.category ? normalizeText(intent.category) : '';
+  return products.filter(p => {
+    if (intent.minPrice !== undefined && (p.price === null || p.price < intent.minPrice)) return false;
+    if (intent.maxPrice !== undefined && (p.price === null || p.price > intent.maxPrice)) return false;
+    if (category && !normalizeText(p.category).includes(category)) return false;
+    return true;
+  });
+};
+
+// Unpriced products always go last when sorting by price
+const byPrice = (direction: 1 | -1) => (a: MappedProduct, b: MappedProduct) => {
+  if (a.price === null || b.price === null) return (a.price === null ? 1 : 0) - (b.price === null ? 1 : 0);
+  return (a.price - b.price) * direction;
+};
+
+export const sortProducts = (products: MappedProduct[], sort: SortOption): MappedProduct[] => {
+  const sorted = [...products];
+  switch (sort) {
+    case SortOption.PriceLowHigh:
+      return sorted.sort(byPrice(1));
+    case SortOption.PriceHighLow:
+      return sorted.sort(byPrice(-1));
+    case SortOption.NameAZ:
+      return sorted.sort((a, b) => a.title.localeCompare(b.title, 'pt-BR'));
+    default:
+      return sorted.sort((a, b) => (b.matchScore || 0) - (a.matchScore || 0));
+  }
+};
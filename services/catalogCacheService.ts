@@ -0,0 +1,127 @@
+import { CatalogSource, MappedProduct } from '../types';
+import { CatalogLoadResult, SourceLoadReport, fetchAndParseProducts, hashText } from './csvService';
+import { openDatabase, runTransaction } from './indexedDb';
+
+// Last good load of one source, kept in IndexedDB for offline starts
+export interface CachedSource {
+  sourceId: string;
+  fingerprint: string;
+  savedAt: number;
+  products: MappedProduct[];
+  report: SourceLoadReport;
+}
+
+const DB_NAME = 'atec-catalog';
+const DB_VERSION = 1;
+const STORE = 'sources';
+// Part of every fingerprint, so caches written before a product field was added are refetched
+const CACHE_FORMAT = 2;
+
+// Changes to where a source is read from (sheet tab and file content included)
+// or how its columns are mapped invalidate its cache
+export const sourceFingerprint = (source: CatalogSource): string =>
+  JSON.stringify([
+    CACHE_FORMAT,
+    source.kind,
+    source.location,
+    source.gid || null,
+    source.content !== undefined ? hashText(source.content) : null,
+    source.columnMapping || null,
+  ]);
+
+const openDb = () => openDatabase(DB_NAME, DB_VERSION, db => {
+  db.createObjectStore(STORE, { keyPath: 'sourceId' });
+});
+
+/**
+ * Returns the cached products of the given sources whose configuration still
+ * matches. Products take the source's current name, since renaming a source
+ * doesn't invalidate its cache.
+ */
+export const readCachedSources = async (sources: CatalogSource[]): Promise<CachedSource[]> => {
+  try {
+    const entries = (await runTransaction<CachedSource[]>(openDb, STORE, 'readonly', tx => tx.objectStore(STORE).getAll())) || [];
+    const byId = new Map(entries.map(e => [e.sourceId, e]));
+    const cached: CachedSource[] = [];
+    sources.forEach(source => {
+      const entry = byId.get(source.id);
+      if (!entry || entry.fingerprint !== sourceFingerprint(source)) return;
+      cached.push({
+        ...entry,
+        products: entry.products.map(p => ({ ...p, sourceName: source.name })),
+        report: { ...entry.report, sourceName: source.name },
+      });
+    });
+    return cached;
+  } catch (error) {
+    console.error("Catalog cache read failed:", error);
+    return [];
+  }
+};
+
+// Stores fresh loads and drops entries of sources that no longer exist
+export const writeCachedSources = async (entries: CachedSource[], knownSourceIds: string[]) => {
+  try {
+    const known = new Set(knownSourceIds);
+    await runTransaction(openDb, STORE, 'readwrite', tx => {
+      const store = tx.objectStore(STORE);
+      entries.forEach(entry => store.put(entry));
+      const keysRequest = store.getAllKeys();
+      keysRequest.onsuccess = () => {
+        keysRequest.result.forEach(key => {
+          if (!known.has(String(key))) store.delete(key);
+        });
+      };
+    });
+  } catch (error) {
+    console.error("Catalog cache write failed:", error);
+  }
+};
+
+// Instant start: whatever was cached for the enabled sources, marked with its age
+export const readCachedCatalog = async (sources: CatalogSource[]): Promise<CatalogLoadResult | null> => {
+  const cached = await readCachedSources(sources.filter(s => s.enabled));
+  if (cached.length === 0) return null;
+  return {
+    products: cached.flatMap(c => c.products),
+    reports: cached.map(c => ({ ...c.report, cachedAt: c.savedAt })),
+  };
+};
+
+/**
+ * Fetches every enabled source and refreshes the cache with the ones that
+ * loaded. A source that fails keeps its error in the report but serves its
+ * last cached products, so a flaky connection doesn't empty the catalog.
+ */
+export const refreshCatalog = async (sources: CatalogSource[]): Promise<CatalogLoadResult> => {
+  const enabled = sources.filter(s => s.enabled);
+  const [fresh, cached] = await Promise.all([fetchAndParseProducts(sources), readCachedSources(enabled)]);
+  const cachedById = new Map(cached.map(c => [c.sourceId, c]));
+  const freshBySource = new Map<string, MappedProduct[]>();
+  fresh.products.forEach(p => {
+    const list = freshBySource.get(p.sourceId);
+    if (list) list.push(p);
+    else freshBySource.set(p.sourceId, [p]);
+  });
+
+  const savedAt = Date.now();
+  const products: MappedProduct[] = [];
+  const toCache: CachedSource[] = [];
+  const reports = fresh.reports.map((report): SourceLoadReport => {
+    if (report.error) {
+      const fallback = cachedById.get(report.sourceId);
+      if (!fallback) return report;
+      products.push(...fallback.products);
+      return { ...fallback.report, error: report.error, cachedAt: fallback.savedAt };
+    }
+    const source = enabled.find(s => s.id === report.sourceId);
+    const sourceProducts = freshBySource.get(report.sourceId) || [];
+    products.push(...sourceProducts);
+    if (source) toCache.push({ sourceId: source.id, fingerprint: sourceFingerprint(source), savedAt, products: sourceProducts, report });
+    return report;
+  });
+
+  // Not awaited: the UI doesn't need to wait for IndexedDB
+  writeCachedSources(toCache, sources.map(s => s.id));
+  return { products, reports };
+};
@@ -0,0 +1,59 @@
+import { MappedProduct, ProductDataIssue } from '../types';
+
+export type CatalogHealthKind = ProductDataIssue | 'duplicate_code';
+
+export interface CatalogHealthEntry {
+  kind: CatalogHealthKind;
+  product: MappedProduct;
+  detail?: string;
+}
+
+export interface CatalogHealthReport {
+  entries: CatalogHealthEntry[];
+  counts: Record<CatalogHealthKind, number>;
+}
+
+const codeKey = (code: string) => code.trim().toUpperCase();
+
+/**
+ * Collects the row-level problems flagged while mapping the catalog and adds
+ * the cross-row check: one product code offered by more than one supplier,
+ * which usually means a mistyped or reused code in one of the price lists.
+ */
+export const analyzeCatalogHealth = (products: MappedProduct[]): CatalogHealthReport => {
+  const entries: CatalogHealthEntry[] = [];
+  const counts: Record<CatalogHealthKind, number> = {
+    missing_price: 0,
+    invalid_price: 0,
+    zero_price: 0,
+    empty_title: 0,
+    missing_code: 0,
+    duplicate_code: 0,
+  };
+
+  const byCode = new Map<string, MappedProduct[]>();
+  products.forEach(product => {
+    product.dataIssues.forEach(kind => {
+      entries.push({ kind, product });
+      counts[kind]++;
+    });
+    // Generated REF- codes are per source and would always collide
+    if (product.dataIssues.includes('missing_code')) return;
+    const key = codeKey(product.code);
+    const group = byCode.get(key);
+    if (group) group.push(product);
+    else byCode.set(key, [product]);
+  });
+
+  byCode.forEach(group => {
+    const suppliers = Array.from(new Set(group.map(p => p.supplier)));
+    if (suppliers.length < 2) return;
+    group.forEach(product => {
+      const others = suppliers.filter(s => s !== product.supplier);
+      entries.push({ kind: 'duplicate_code', product, detail: `Também em: ${others.join(', ')}` });
+      counts.duplicate_code++;
+    });
+  });
+
+  return { entries, counts };
+};
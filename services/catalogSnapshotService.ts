@@ -0,0 +1,135 @@
+import { MappedProduct } from '../types';
+
+// What is kept of each product between loads: [code, title, supplier, price]
+type SnapshotRow = [string, string, string, number | null];
+
+interface SourceSnapshot {
+  name: string;
+  products: Record<string, SnapshotRow>; // product id -> row
+}
+
+export interface CatalogSnapshot {
+  takenAt: number;
+  sources: Record<string, SourceSnapshot>; // sourceId -> products
+}
+
+export interface SnapshotEntry {
+  id: string;
+  code: string;
+  title: string;
+  supplier: string;
+  sourceId: string;
+  sourceName: string;
+  price: number | null;
+}
+
+export interface RepricedEntry extends SnapshotEntry {
+  previousPrice: number | null;
+}
+
+export interface CatalogDiff {
+  since: number;      // When the compared snapshot was taken
+  detectedAt: number;
+  added: SnapshotEntry[];
+  removed: SnapshotEntry[];
+  repriced: RepricedEntry[];
+}
+
+const SNAPSHOT_KEY = 'atec.catalogSnapshot.v1';
+const DIFF_KEY = 'atec.catalogDiff.v1';
+
+export const takeSnapshot = (products: MappedProduct[], sourceIds: string[]): CatalogSnapshot => {
+  const sources: Record<string, SourceSnapshot> = {};
+  sourceIds.forEach(id => { sources[id] = { name: '', products: {} }; });
+  products.forEach(p => {
+    const source = sources[p.sourceId];
+    if (!source) return;
+    source.name = p.sourceName;
+    source.products[p.id] = [p.code, p.title, p.supplier, p.price];
+  });
+  return { takenAt: Date.now(), sources };
+};
+
+const toEntry = (id: string, sourceId: string, sourceName: string, [code, title, supplier, price]: SnapshotRow): SnapshotEntry => ({
+  id, code, title, supplier, sourceId, sourceName, price,
+});
+
+/**
+ * Compares the sources present in both snapshots. Sources that were added,
+ * disabled or failed to load on either side are left out, otherwise their
+ * whole list would show up as added or removed.
+ */
+export const diffSnapshots = (previous: CatalogSnapshot, next: CatalogSnapshot): CatalogDiff => {
+  const diff: CatalogDiff = { since: previous.takenAt, detectedAt: next.takenAt, added: [], removed: [], repriced: [] };
+
+  Object.keys(next.sources).forEach(sourceId => {
+    const before = previous.sources[sourceId];
+    if (!before) return;
+    const after = next.sources[sourceId];
+    const name = after.name || before.name;
+
+    Object.keys(after.products).forEach(id => {
+      const row = after.products[id];
+      const old = before.products[id];
+      if (!old) diff.added.push(toEntry(id, sourceId, name, row));
+      else if (old[3] !== row[3]) diff.repriced.push({ ...toEntry(id, sourceId, name, row), previousPrice: old[3] });
+    });
+    Object.keys(before.products).forEach(id => {
+      if (!after.products[id]) diff.removed.push(toEntry(id, sourceId, name, before.products[id]));
+    });
+  });
+
+  return diff;
+};
+
+export const isEmptyDiff = (diff: CatalogDiff) => diff.added.length + diff.removed.length + diff.repriced.length === 0;
+
+const readJson = <T>(key: string): T | null => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) as T : null;
+  } catch (error) {
+    console.error("Catalog snapshot load failed:", error);
+    return null;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    // Large catalogs can exceed the storage quota; change detection is skipped then
+    console.error("Catalog snapshot save failed:", error);
+  }
+};
+
+/**
+ * Records the freshly loaded catalog and returns the latest change set.
+ * Only `loadedSourceIds` replace their part of the stored snapshot, so a
+ * source that failed today is still compared against its last good load.
+ * The last non-empty diff is kept, so reloading an unchanged catalog keeps
+ * showing what changed the last time a list was updated.
+ */
+export const recordCatalogLoad = (products: MappedProduct[], loadedSourceIds: string[]): CatalogDiff | null => {
+  const previous = readJson<CatalogSnapshot>(SNAPSHOT_KEY);
+  const next = takeSnapshot(products, loadedSourceIds);
+
+  let diff = readJson<CatalogDiff>(DIFF_KEY);
+  if (previous) {
+    const fresh = diffSnapshots(previous, next);
+    if (!isEmptyDiff(fresh)) {
+      diff = fresh;
+      writeJson(DIFF_KEY, diff);
+    }
+    // Keep sources that weren't loaded this time
+    Object.keys(previous.sources).forEach(id => {
+      if (!next.sources[id]) next.sources[id] = previous.sources[id];
+    });
+  }
+  writeJson(SNAPSHOT_KEY, next);
+  return diff;
+};
+
+export const clearCatalogDiff = () => {
+  localStorage.removeItem(DIFF_KEY);
+};
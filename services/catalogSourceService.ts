@@ -0,0 +1,53 @@
+import { CatalogSource } from '../types';
+import { DEFAULT_SHEET_ID } from './csvService';
+
+export const DEFAULT_SOURCES: CatalogSource[] = [
+  { id: 'atec', name: 'Catálogo ATEC', kind: 'sheet', location: DEFAULT_SHEET_ID, enabled: true },
+];
+
+const STORAGE_KEY = 'atec.catalogSources.v1';
+
+export const createSourceId = (): string => `src-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+// Accepts a full Google Sheets link as well as the bare ID
+export const extractSheetId = (value: string): string => {
+  const match = value.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/);
+  return match ? match[1] : value.trim();
+};
+
+// Tab of a Google Sheets link ("...#gid=123"); none for the first tab or a bare ID
+export const extractSheetGid = (value: string): string | undefined => {
+  const match = value.match(/[#&?]gid=(\d+)/);
+  return match && match[1] !== '0' ? match[1] : undefined;
+};
+
+export const loadCatalogSources = (): CatalogSource[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_SOURCES;
+    const sources = JSON.parse(stored) as CatalogSource[];
+    return Array.isArray(sources) ? sources : DEFAULT_SOURCES;
+  } catch (error) {
+    console.error("Catalog sources load failed:", error);
+    return DEFAULT_SOURCES;
+  }
+};
+
+// False when the sources could not be stored, so the UI can warn that they won't survive a reload
+export const saveCatalogSources = (sources: CatalogSource[]): boolean => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sources));
+    return true;
+  } catch (error) {
+    // Large local CSV files can exceed the storage quota
+    console.error("Catalog sources save failed:", error);
+    return false;
+  }
+};
+
+// Link that opens the source at a given spreadsheet row, when the source is browsable
+export const sourceRowUrl = (source: CatalogSource, row: number): string | null => {
+  if (source.kind === 'sheet') return `https://docs.google.com/spreadsheets/d/${source.location}/edit#gid=${source.gid || '0'}&range=A${row}`;
+  if (source.kind === 'url') return source.location;
+  return null;
+};
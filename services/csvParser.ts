@@ -0,0 +1,302 @@
+export type CsvDelimiter = ',' | ';' | '\t';
+
+export type CsvIssueKind = 'malformed' | 'column_mismatch' | 'skipped';
+
+export interface CsvIssue {
+  line: number;      // 1-based physical line where the record starts
+  kind: CsvIssueKind;
+  message: string;
+  skipped: boolean;  // true when the record was left out of `rows`
+  raw?: string;      // First characters of the record, for display
+}
+
+export interface CsvParseReport {
+  delimiter: CsvDelimiter;
+  hadBom: boolean;
+  headerCount: number;
+  rowCount: number;  // Data rows kept
+  issues: CsvIssue[];
+}
+
+export interface CsvParseResult {
+  headers: string[];
+  rows: string[][];
+  rowLines: number[]; // Physical line where each kept row starts
+  rowNumbers: number[]; // Spreadsheet row of each kept row: every record counts, blank and skipped ones too
+  report: CsvParseReport;
+}
+
+export interface CsvStreamParser {
+  push: (chunk: string) => void;
+  end: () => CsvParseResult;
+}
+
+const DELIMITERS: CsvDelimiter[] = [',', ';', '\t'];
+// Enough text to see a few complete records before picking the delimiter
+const DETECTION_SAMPLE_SIZE = 16 * 1024;
+const RAW_PREVIEW_LENGTH = 120;
+
+/**
+ * Picks the delimiter that splits the first records into the most consistent
+ * number of columns. Characters inside quoted fields are ignored, so commas
+ * in a pt-BR price like "1.234,56" don't count.
+ */
+export const detectDelimiter = (sample: string): CsvDelimiter => {
+  const counts: Record<CsvDelimiter, number[]> = { ',': [0], ';': [0], '\t': [0] };
+  let inQuotes = false;
+
+  for (let i = 0; i < sample.length; i++) {
+    const char = sample[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      if (char === '\r' && sample[i + 1] === '\n') i++;
+      DELIMITERS.forEach(d => counts[d].push(0));
+      if (counts[','].length > 20) break;
+    } else if (!inQuotes && (char === ',' || char === ';' || char === '\t')) {
+      counts[char][counts[char].length - 1]++;
+    }
+  }
+
+  let best: CsvDelimiter = ',';
+  let bestScore = -1;
+  DELIMITERS.forEach(d => {
+    // Drop the last, possibly incomplete, record and empty lines
+    const perLine = counts[d].slice(0, -1).filter((_, i) => counts[','][i] + counts[';'][i] + counts['\t'][i] > 0);
+    const lines = perLine.length > 0 ? perLine : counts[d];
+    const header = lines[0] || 0;
+    if (header === 0) return;
+    const consistent = lines.filter(n => n === header).length;
+    // Prefer delimiters that repeat the header's column count, then more columns
+    const score = consistent * 1000 + header;
+    if (score > bestScore) {
+      bestScore = score;
+      best = d;
+    }
+  });
+  return best;
+};
+
+/**
+ * Incremental RFC 4180 parser: quoted fields may contain delimiters, escaped
+ * quotes ("") and line breaks; CRLF, LF and CR all end a record; a leading
+ * BOM is dropped. Text can be pushed in arbitrary chunks, e.g. straight from
+ * a fetch body. The first non-blank record is the header row.
+ */
+/**
+ * `headerless` keeps every record in `rows` as it was read, with no header
+ * and no column count check; for files whose header row is not the first.
+ */
+export const createCsvParser = (forcedDelimiter?: CsvDelimiter, headerless = false): CsvStreamParser => {
+  let delimiter: CsvDelimiter | null = forcedDelimiter || null;
+  let started = false;
+  let pending = ''; // Text buffered until the delimiter is known
+  let carry = '';   // Trailing chars whose meaning depends on the next chunk
+  let hadBom = false;
+
+  let headers: string[] | null = null;
+  const rows: string[][] = [];
+  const rowLines: number[] = [];
+  const rowNumbers: number[] = [];
+  const issues: CsvIssue[] = [];
+  // Blank lines are only reported once data follows them, so trailing ones stay silent
+  let blankLines: CsvIssue[] = [];
+
+  // Record state
+  let fields: string[] = [];
+  let field = '';
+  let raw = '';
+  let inQuotes = false;
+  let fieldWasQuoted = false;
+  let afterClosingQuote = false;
+  let problem: { message: string; skip: boolean } | null = null;
+  let line = 1;
+  let recordLine = 1;
+  let recordNumber = 0;
+
+  const flagProblem = (message: string, skip: boolean) => {
+    if (!problem || (skip && !problem.skip)) problem = { message, skip };
+  };
+
+  const endField = () => {
+    fields.push(field.trim());
+    field = '';
+    fieldWasQuoted = false;
+    afterClosingQuote = false;
+  };
+
+  const endRecord = () => {
+    endField();
+    recordNumber++;
+    const preview = raw.slice(0, RAW_PREVIEW_LENGTH);
+    const report = (issue: Omit<CsvIssue, 'line' | 'raw'>) => issues.push({ line: recordLine, raw: preview, ...issue });
+
+    if (problem?.skip) {
+      report({ kind: 'malformed', message: problem.message, skipped: true });
+    } else if (fields.every(f => f === '')) {
+      if (headers || headerless) blankLines.push({ line: recordLine, kind: 'skipped', message: 'Linha sem valores', skipped: true, raw: preview });
+    } else if (!headers && !headerless) {
+      headers = fields;
+    } else if (!headers) {
+      issues.push(...blankLines);
+      blankLines = [];
+      if (problem) report({ kind: 'malformed', message: problem.message, skipped: false });
+      rows.push(fields);
+      rowLines.push(recordLine);
+      rowNumbers.push(recordNumber);
+    } else {
+      issues.push(...blankLines);
+      blankLines = [];
+      if (problem) report({ kind: 'malformed', message: problem.message, skipped: false });
+
+      const expected = headers.length;
+      if (fields.length > expected && fields.slice(expected).some(f => f !== '')) {
+        report({ kind: 'column_mismatch', message: `${fields.length} colunas, esperado ${expected}`, skipped: true });
+      } else {
+        if (fields.length < expected) {
+          report({
+            kind: 'column_mismatch',
+            message: `${fields.length} colunas, esperado ${expected}; as faltantes ficaram vazias`,
+            skipped: false,
+          });
+          while (fields.length < expected) fields.push('');
+        }
+        rows.push(fields.slice(0, expected));
+        rowLines.push(recordLine);
+        rowNumbers.push(recordNumber);
+      }
+    }
+
+    fields = [];
+    raw = '';
+    problem = null;
+    recordLine = line;
+  };
+
+  // `text` never ends in the middle of a "" pair or a CRLF (see `feed`)
+  const consume = (text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          raw += '""';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+          afterClosingQuote = true;
+          raw += char;
+        } else {
+          if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+          field += char;
+          raw += char;
+        }
+      } else if (char === delimiter) {
+        endField();
+        raw += char;
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        line++;
+        endRecord();
+      } else if (char === '"') {
+        raw += char;
+        if (field.trim() === '' && !fieldWasQuoted) {
+          field = '';
+          inQuotes = true;
+          fieldWasQuoted = true;
+        } else {
+          // A stray quote (e.g. an inch mark) in an unquoted field is kept literally
+          flagProblem('Aspas dentro de um campo sem aspas', false);
+          field += char;
+        }
+      } else {
+        if (afterClosingQuote && char.trim() !== '') {
+          flagProblem('Texto após o fechamento das aspas', true);
+        }
+        field += char;
+        raw += char;
+      }
+    }
+  };
+
+  const feed = (text: string, final: boolean) => {
+    let input = carry + text;
+    carry = '';
+    if (!final) {
+      // Hold back a trailing CR or run of quotes until the next chunk shows what follows
+      const match = input.match(/(\r|"+)$/);
+      if (match) {
+        carry = match[0];
+        input = input.slice(0, -carry.length);
+      }
+    }
+    consume(input);
+  };
+
+  const start = () => {
+    started = true;
+    if (pending.charCodeAt(0) === 0xFEFF) {
+      hadBom = true;
+      pending = pending.slice(1);
+    }
+    if (!delimiter) delimiter = detectDelimiter(pending);
+    const text = pending;
+    pending = '';
+    feed(text, false);
+  };
+
+  const push = (chunk: string) => {
+    if (started) {
+      feed(chunk, false);
+      return;
+    }
+    pending += chunk;
+    if (delimiter || pending.length >= DETECTION_SAMPLE_SIZE) start();
+  };
+
+  const end = (): CsvParseResult => {
+    if (!started) start();
+    feed('', true);
+    if (inQuotes) {
+      flagProblem('Aspas não fechadas até o fim do arquivo', true);
+      inQuotes = false;
+    }
+    if (field !== '' || fields.length > 0 || fieldWasQuoted || problem) endRecord();
+
+    return {
+      headers: headers || [],
+      rows,
+      rowLines,
+      rowNumbers,
+      report: {
+        delimiter: delimiter || ',',
+        hadBom,
+        headerCount: (headers || []).length,
+        rowCount: rows.length,
+        issues,
+      },
+    };
+  };
+
+  return { push, end };
+};
+
+export const parseCsv = (text: string, delimiter?: CsvDelimiter, headerless = false): CsvParseResult => {
+  const parser = createCsvParser(delimiter, headerless);
+  parser.push(text);
+  return parser.end();
+};
+
+export const parseCsvStream = async (stream: ReadableStream<Uint8Array>, delimiter?: CsvDelimiter): Promise<CsvParseResult> => {
+  const parser = createCsvParser(delimiter);
+  const reader = stream.getReader();
+  const decoder = new TextDecoder('utf-8');
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parser.push(decoder.decode(value, { stream: true }));
+  }
+  parser.push(decoder.decode());
+  return parser.end();
+};
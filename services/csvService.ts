@@ -1,85 +1,219 @@
 
-import { Product, MappedProduct } from '../types';
-
-export const SHEET_ID = '1Qo1g6s8NZv9Q-GjXBSz2gpH0VQnWKN1GHfJaO8MOe3A';
-export const CSV_URL = `https://docs.google.com/spreadsheets/d/${SHEET_ID}/export?format=csv`;
-
-const parseCSVLine = (line: string): string[] => {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        current += '"';
-        i++;
-      } else {
-        inQuotes = !inQuotes;
-      }
-    } else if (char === ',' && !inQuotes) {
-      result.push(current.trim());
-      current = '';
-    } else {
-      current += char;
-    }
+import { MappedProduct, CatalogSource, ColumnMapping, MappableField, ProductDataIssue } from '../types';
+import { CsvParseReport, CsvParseResult, parseCsv, parseCsvStream } from './csvParser';
+
+// Outcome of loading one catalog source, shown in the sources panel
+export interface SourceLoadReport {
+  sourceId: string;
+  sourceName: string;
+  productCount: number;
+  parse?: CsvParseReport;
+  preview?: Pick<CsvParseResult, 'headers' | 'rows'>; // Headers and first rows, for the mapping wizard
+  error?: string;
+  cachedAt?: number; // Set when the products shown come from the offline cache
+}
+
+export interface CatalogLoadResult {
+  products: MappedProduct[];
+  reports: SourceLoadReport[];
+}
+
+const PREVIEW_ROWS = 8;
+
+export const DEFAULT_SHEET_ID = '1Qo1g6s8NZv9Q-GjXBSz2gpH0VQnWKN1GHfJaO8MOe3A';
+
+export const sheetCsvUrl = (sheetId: string, gid?: string) =>
+  `https://docs.google.com/spreadsheets/d/${sheetId}/export?format=csv${gid ? `&gid=${gid}` : ''}`;
+
+// Header keywords used to guess each field when a source has no saved mapping
+const FIELD_KEYWORDS: Record<MappableField, string[]> = {
+  title: ['nome', 'name', 'produto', 'title', 'item', 'descricao', 'descrição'],
+  code: ['codigo', 'código', 'code', 'id', 'ref', 'referencia', 'referência'],
+  price: ['preco', 'preço', 'price', 'valor', 'cost', 'unitario', 'venda', 'preço venda'],
+  brand: ['marca', 'brand', 'fabricante', 'lab', 'laboratorio', 'mrc'],
+  supplier: ['fornecedor', 'supplier', 'distribuidor', 'vendedor', 'empresa', 'origem', 'loja'],
+  category: ['categoria', 'tipo', 'grupo'],
+  description: ['detalhes', 'descricao', 'obs'],
+  unit: ['unidade', 'unid', 'und', 'unit', 'embalagem'],
+  stock: ['estoque', 'stock', 'saldo', 'disponivel', 'disponível'],
+};
+
+export const MAPPABLE_FIELDS = Object.keys(FIELD_KEYWORDS) as MappableField[];
+
+// Automatic mapping: exact header match first, then a header containing a keyword
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const lower = headers.map(h => h.toLowerCase().trim());
+  const mapping: ColumnMapping = {};
+  MAPPABLE_FIELDS.forEach(field => {
+    const keywords = FIELD_KEYWORDS[field];
+    let index = lower.findIndex(h => keywords.some(k => h === k));
+    if (index === -1) index = lower.findIndex(h => keywords.some(k => h.includes(k)));
+    if (index !== -1) mapping[field] = headers[index];
+  });
+  // Sheets without a recognizable title column use the first one
+  if (!mapping.title && headers.length > 0) mapping.title = headers[0];
+  return mapping;
+};
+
+/**
+ * Reads a number written either pt-BR ("1.234,56") or en ("1,234.56") style,
+ * ignoring currency symbols and units. When both separators appear the last
+ * one is the decimal mark; a lone separator followed by exactly three digits
+ * is taken as thousands ("1.500" is 1500). Returns null when there is no
+ * readable number.
+ */
+export const parseLocaleNumber = (value: string): number | null => {
+  const cleaned = value.replace(/[^0-9.,-]/g, '');
+  if (!/^-?[\d.,]*\d[\d.,]*$/.test(cleaned)) return null;
+
+  const negative = cleaned.startsWith('-');
+  const digits = negative ? cleaned.slice(1) : cleaned;
+  const lastComma = digits.lastIndexOf(',');
+  const lastDot = digits.lastIndexOf('.');
+
+  let normalized = digits;
+  if (lastComma !== -1 && lastDot !== -1) {
+    const [decimal, thousands] = lastComma > lastDot ? [',', '.'] : ['.', ','];
+    normalized = digits.split(thousands).join('').replace(decimal, '.');
+  } else if (lastComma !== -1 || lastDot !== -1) {
+    const separator = lastComma !== -1 ? ',' : '.';
+    const parts = digits.split(separator);
+    if (parts.length > 2 && parts.slice(1).some(p => p.length !== 3)) return null;
+    const isThousands = parts.length > 2 || (parts[1].length === 3 && /[1-9]/.test(parts[0]));
+    normalized = isThousands ? parts.join('') : parts.join('.');
   }
-  result.push(current.trim());
-  return result;
+
+  const parsed = Number(normalized);
+  if (isNaN(parsed)) return null;
+  return negative ? -parsed : parsed;
 };
 
-export const fetchAndParseProducts = async (): Promise<MappedProduct[]> => {
-  try {
-    const response = await fetch(CSV_URL);
-    if (!response.ok) throw new Error(`Sheet unreachable: ${response.statusText}`);
-    
-    const text = await response.text();
-    if (text.trim().startsWith('<!DOCTYPE html>')) {
-      throw new Error("A planilha não está pública ou o link expirou.");
-    }
+const identityPart = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
 
-    const lines = text.split('\n').filter(line => line.trim() !== '');
-    if (lines.length < 2) return [];
-
-    const headers = parseCSVLine(lines[0]).map(h => h.toLowerCase().trim());
-    
-    return lines.slice(1).map((line, index) => {
-      const values = parseCSVLine(line);
-      const rawObj: Record<string, string> = {};
-      headers.forEach((header, i) => { rawObj[header] = values[i] || ''; });
-
-      const findField = (keywords: string[]): string => {
-        // Try exact match first
-        let key = headers.find(h => keywords.some(k => h === k));
-        // Then try contains
-        if (!key) key = headers.find(h => keywords.some(k => h.includes(k)));
-        return key ? rawObj[key] : '';
-      };
+// Short, stable digest of a text; not meant to resist collisions on purpose
+export const hashText = (text: string): string => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) hash = (Math.imul(hash, 31) + text.charCodeAt(i)) | 0;
+  return (hash >>> 0).toString(36);
+};
 
-      const title = findField(['nome', 'name', 'produto', 'title', 'item', 'descricao', 'descrição']) || values[0] || 'Produto sem nome';
-      const code = findField(['codigo', 'código', 'code', 'id', 'ref', 'referencia', 'referência']) || `REF-${index}`;
-      const priceStr = findField(['preco', 'preço', 'price', 'valor', 'cost', 'unitario', 'venda', 'preço venda']) || '0';
-      const brand = findField(['marca', 'brand', 'fabricante', 'lab', 'laboratorio', 'mrc']) || 'Marca não informada';
-      const supplier = findField(['fornecedor', 'supplier', 'distribuidor', 'vendedor', 'empresa', 'origem', 'loja']) || 'Fornecedor Direto';
-
-      const priceClean = parseFloat(priceStr.replace(/[^0-9.,]/g, '').replace(',', '.'));
-
-      return {
-        id: `prod-${index}-${Date.now()}`,
-        _raw: rawObj,
-        title: title.trim(),
-        code: code.trim(),
-        price: isNaN(priceClean) ? 0 : priceClean,
-        image: `https://picsum.photos/400/300?random=${index}`,
-        category: findField(['categoria', 'tipo', 'grupo']) || 'Geral',
-        description: findField(['detalhes', 'descricao', 'obs']) || '',
-        brand: brand.trim(),
-        supplier: supplier.trim()
-      };
-    });
-  } catch (error) {
-    console.error("CSV Fetch Error:", error);
-    return [];
+// Code shown for rows without one: the same product keeps it when rows move
+const fallbackCode = (supplier: string, title: string) =>
+  `REF-${hashText(`${identityPart(supplier)}|${identityPart(title)}`).toUpperCase()}`;
+
+export const mapProducts = (
+  { headers, rows, rowLines, rowNumbers }: Pick<CsvParseResult, 'headers' | 'rows'> & Partial<Pick<CsvParseResult, 'rowLines' | 'rowNumbers'>>,
+  source: CatalogSource
+): MappedProduct[] => {
+  if (rows.length === 0) return [];
+
+  const lowerHeaders = headers.map(h => h.toLowerCase().trim());
+  const mapping = source.columnMapping || guessColumnMapping(headers);
+  const columnIndex: Partial<Record<MappableField, number>> = {};
+  MAPPABLE_FIELDS.forEach(field => {
+    const index = mapping[field] !== undefined ? headers.indexOf(mapping[field] as string) : -1;
+    if (index !== -1) columnIndex[field] = index;
+  });
+  const seenIds = new Map<string, number>();
+
+  return rows.map((values, index) => {
+    const rawObj: Record<string, string> = {};
+    lowerHeaders.forEach((header, i) => { rawObj[header] = values[i] || ''; });
+
+    const field = (name: MappableField): string => {
+      const i = columnIndex[name];
+      return i === undefined ? '' : (values[i] || '').trim();
+    };
+
+    const title = field('title');
+    const code = field('code');
+    const priceText = field('price');
+    let price = parseLocaleNumber(priceText);
+
+    const dataIssues: ProductDataIssue[] = [];
+    if (!priceText) dataIssues.push('missing_price');
+    else if (price === null || price < 0) {
+      dataIssues.push('invalid_price');
+      price = null;
+    } else if (price === 0) dataIssues.push('zero_price');
+    if (!title) dataIssues.push('empty_title');
+    if (!code) dataIssues.push('missing_code');
+
+    // Stable across reloads and reordered sheets, so selections and snapshots keep pointing
+    // at the same row. Rows without a code fall back to their title; repeats get a counter.
+    const supplier = field('supplier') || 'Fornecedor Direto';
+    const baseId = `prod-${source.id}-${identityPart(supplier)}-${code ? identityPart(code) : `t:${identityPart(title)}`}`;
+    const occurrence = (seenIds.get(baseId) || 0) + 1;
+    seenIds.set(baseId, occurrence);
+
+    return {
+      id: occurrence > 1 ? `${baseId}#${occurrence}` : baseId,
+      _raw: rawObj,
+      title: title || 'Produto sem nome',
+      code: code || fallbackCode(supplier, title),
+      price,
+      image: `https://picsum.photos/400/300?random=${index}`,
+      category: field('category') || 'Geral',
+      description: field('description'),
+      brand: field('brand') || 'Marca não informada',
+      supplier,
+      unit: field('unit').toUpperCase(),
+      stock: parseLocaleNumber(field('stock')),
+      sourceId: source.id,
+      sourceName: source.name,
+      // Header row plus 1-based index when the parser's line numbers aren't available
+      line: rowLines ? rowLines[index] : index + 2,
+      row: rowNumbers ? rowNumbers[index] : index + 2,
+      dataIssues
+    };
+  });
+};
+
+const fetchSourceCsv = async (source: CatalogSource): Promise<CsvParseResult> => {
+  if (source.kind === 'file') {
+    if (source.content === undefined) throw new Error(`Arquivo "${source.location}" não está disponível.`);
+    return parseCsv(source.content);
+  }
+
+  const url = source.kind === 'sheet' ? sheetCsvUrl(source.location, source.gid) : source.location;
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Sheet unreachable: ${response.statusText}`);
+  if (response.headers.get('content-type')?.includes('text/html')) {
+    throw new Error("A planilha não está pública ou o link expirou.");
   }
+
+  return response.body ? parseCsvStream(response.body) : parseCsv(await response.text());
+};
+
+// Loads every enabled source and merges the rows. A failing source is
+// reported and skipped so the other price lists still load.
+export const fetchAndParseProducts = async (sources: CatalogSource[]): Promise<CatalogLoadResult> => {
+  const loaded = await Promise.all(sources.filter(s => s.enabled).map(async (source) => {
+    try {
+      const parsed = await fetchSourceCsv(source);
+      const products = mapProducts(parsed, source);
+      if (products.length === 0) throw new Error("Nenhum produto encontrado na planilha.");
+      const report: SourceLoadReport = {
+        sourceId: source.id,
+        sourceName: source.name,
+        productCount: products.length,
+        parse: parsed.report,
+        preview: { headers: parsed.headers, rows: parsed.rows.slice(0, PREVIEW_ROWS) },
+      };
+      return { products, report };
+    } catch (error) {
+      console.error(`CSV Fetch Error (${source.name}):`, error);
+      const report: SourceLoadReport = {
+        sourceId: source.id,
+        sourceName: source.name,
+        productCount: 0,
+        error: error instanceof Error ? error.message : String(error),
+      };
+      return { products: [] as MappedProduct[], report };
+    }
+  }));
+  return {
+    products: loaded.flatMap(l => l.products),
+    reports: loaded.map(l => l.report),
+  };
 };
@@ -0,0 +1,88 @@
+import { ExtractedItem, ExtractionSource } from '../types';
+import { SourceLine, extractShoppingItems } from './llmService';
+import { ParsedLine, parseRequestText } from './listParser';
+
+export type ExtractionMode = 'ai' | 'local' | 'hybrid';
+
+export const EXTRACTION_MODE_LABELS: Record<ExtractionMode, string> = {
+  ai: 'IA',
+  local: 'Local (offline)',
+  hybrid: 'Local + IA nas linhas ambíguas',
+};
+
+// Per-line badge in the results table
+export const EXTRACTED_BY_LABELS: Record<ExtractionSource, string> = {
+  ai: 'IA',
+  local: 'Local',
+  file: 'Arquivo',
+  catalog: 'Catálogo',
+};
+
+export const EXTRACTED_BY_TITLES: Record<ExtractionSource, string> = {
+  ai: 'Item separado pela IA',
+  local: 'Item separado pelo leitor local, sem IA',
+  file: 'Item importado de arquivo',
+  catalog: 'Produto adicionado pela busca no catálogo',
+};
+
+const STORAGE_KEY = 'atec.extractionMode.v1';
+
+export const loadExtractionMode = (): ExtractionMode => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored && stored in EXTRACTION_MODE_LABELS ? stored as ExtractionMode : 'ai';
+  } catch (error) {
+    console.error("Extraction mode load failed:", error);
+    return 'ai';
+  }
+};
+
+export const saveExtractionMode = (mode: ExtractionMode) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, mode);
+  } catch (error) {
+    console.error("Extraction mode save failed:", error);
+  }
+};
+
+export interface RequestExtraction {
+  items: ExtractedItem[];
+  missingLines: SourceLine[];  // Product lines that produced no item
+}
+
+const fromParsed = (line: ParsedLine): ExtractedItem => ({ name: line.name, quantity: line.quantity, source: 'local', line: line.line });
+
+const toSource = (line: ParsedLine): SourceLine => ({ line: line.line, text: line.raw });
+
+// Lines the local parser reads as products are expected to come back as items
+const findMissing = (expected: ParsedLine[], items: ExtractedItem[]): SourceLine[] => {
+  const covered = new Set(items.map(item => item.line));
+  return expected.filter(line => !covered.has(line.line)).map(toSource);
+};
+
+/**
+ * Turns pasted text into items. 'hybrid' keeps the lines the local parser is
+ * sure about and sends only the ambiguous ones to the AI. Items come back in
+ * the order of the pasted lines, along with the lines the AI dropped.
+ */
+export const extractRequestItems = async (
+  text: string,
+  mode: ExtractionMode,
+  onProgress?: (done: number, total: number) => void
+): Promise<RequestExtraction> => {
+  const parsed = parseRequestText(text);
+  if (mode === 'local') return { items: parsed.map(fromParsed), missingLines: [] };
+
+  if (mode === 'ai') {
+    // The AI sees every non-blank line, noise included, and decides what is a product
+    const lines = text.split(/\r?\n/).map((raw, i) => ({ line: i + 1, text: raw })).filter(l => l.text.trim());
+    const items = await extractShoppingItems(lines, onProgress);
+    return { items, missingLines: findMissing(parsed, items) };
+  }
+
+  const ambiguous = parsed.filter(line => line.confidence === 'ambiguous');
+  const aiItems = ambiguous.length ? await extractShoppingItems(ambiguous.map(toSource), onProgress) : [];
+  const items = [...parsed.filter(line => line.confidence === 'certain').map(fromParsed), ...aiItems]
+    .sort((a, b) => a.line! - b.line!);
+  return { items, missingLines: findMissing(ambiguous, aiItems) };
+};
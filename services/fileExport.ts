@@ -0,0 +1,33 @@
+// Helpers shared by the CSV and document exports
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Revoked later: some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const formatDecimal = (value: number) => value.toLocaleString('pt-BR', { minimumFractionDigits: 2 });
+
+/**
+ * Semicolon separated with a BOM, which is what Excel expects for pt-BR.
+ * Strings are quoted; numbers are written as they are.
+ */
+export const toCsv = (rows: (string | number)[][]): string =>
+  "\uFEFF" + rows.map(row => row.map(cell => (typeof cell === 'number' ? String(cell) : `"${cell.replace(/"/g, '""')}"`)).join(';')).join('\n');
+
+export const downloadCsv = (rows: (string | number)[][], filename: string) => {
+  downloadBlob(new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8;' }), filename);
+};
+
+// For file names: lowercase ASCII, words joined by underscores
+export const slugify = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'arquivo';
+
+export const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
@@ -1,14 +1,31 @@
-
 import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
-import { SearchIntent } from "../types";
+import { ExtractedItem, SearchIntent } from "../types";
+import type { LlmProvider, LlmUsage } from "./llmService";
+
+const usageOf = (response: GenerateContentResponse): LlmUsage | undefined =>
+  response.usageMetadata
+    ? { inputTokens: response.usageMetadata.promptTokenCount, outputTokens: response.usageMetadata.candidatesTokenCount }
+    : undefined;
+
+/**
+ * Gemini backend for the LLM layer. The client is created on first use and
+ * reused; errors (including a missing key) are thrown for the caller to
+ * record and retry.
+ */
+export const createGeminiProvider = (apiKey: string | undefined): LlmProvider => {
+  let client: GoogleGenAI | null = null;
+  const getClient = () => {
+    if (!apiKey) throw Object.assign(new Error("GEMINI_API_KEY is not set"), { status: 401 });
+    if (!client) client = new GoogleGenAI({ apiKey });
+    return client;
+  };
 
-export const analyzeSearchIntent = async (query: string): Promise<SearchIntent> => {
-  try {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
+  const analyzeIntent: LlmProvider['analyzeIntent'] = async (query, { model, signal }) => {
+    const response: GenerateContentResponse = await getClient().models.generateContent({
+      model,
       contents: `Analyze this medical equipment search query: "${query}". Extract keywords, price constraints, and category. Return JSON.`,
       config: {
+        abortSignal: signal,
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
@@ -28,38 +45,30 @@ export const analyzeSearchIntent = async (query: string): Promise<SearchIntent>
       }
     });
 
-    if (response.text) {
-      return JSON.parse(response.text) as SearchIntent;
-    }
-    return { keywords: query.split(' ') };
-  } catch (error) {
-    console.error("Gemini analysis failed:", error);
-    return { keywords: query.split(' ') };
-  }
-};
+    if (!response.text) throw new Error("Empty response");
+    return { value: JSON.parse(response.text) as SearchIntent, usage: usageOf(response) };
+  };
 
-export interface ExtractedItem {
-  name: string;
-  quantity: number;
-}
+  const extractItems: LlmProvider['extractItems'] = async (text, { model, signal }) => {
+    // Numbered so each item can name the line it came from
+    const numbered = text.split('\n').map((line, i) => `${i + 1}| ${line}`).join('\n');
+    const response: GenerateContentResponse = await getClient().models.generateContent({
+      model,
+      contents: `Extract a list of surgical/medical instruments and supplies from this text. Each line starts with its line number and "| ", which are not part of the text:
+${numbered}
 
-export const extractShoppingItems = async (text: string): Promise<ExtractedItem[]> => {
-  try {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: `Extract a list of surgical/medical instruments and supplies from this text: "${text}". 
-      
       CRITICAL INSTRUCTIONS:
       1. IGNORE greetings, sign-offs, and conversational phrases.
       2. PRESERVE specific names like "Clips Mayo", "Afastador Sen Muller", "Pinça Kelly". Do NOT remove words like "Clips" or "Mayo".
-      3. For each item, extract PRODUCT NAME and QUANTITY.
+      3. For each item, extract PRODUCT NAME, QUANTITY and the LINE number it came from.
       4. If a number follows a product name (e.g., "Mayo clips 2"), that is the quantity.
       5. If no quantity is specified, return 1.
       6. If multiple items are listed, return each one.
-      
-      Format: JSON array of objects with "name" and "quantity".`,
+      7. Return every product line; do not merge or skip lines.
+
+      Format: JSON array of objects with "name", "quantity" and "line".`,
       config: {
+        abortSignal: signal,
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.ARRAY,
@@ -67,20 +76,18 @@ export const extractShoppingItems = async (text: string): Promise<ExtractedItem[
             type: Type.OBJECT,
             properties: {
               name: { type: Type.STRING, description: "Full descriptive name of the product" },
-              quantity: { type: Type.NUMBER, description: "Number of units requested" }
+              quantity: { type: Type.NUMBER, description: "Number of units requested" },
+              line: { type: Type.INTEGER, description: "Line number the item came from" }
             },
-            required: ["name", "quantity"]
+            required: ["name", "quantity", "line"]
           }
         }
       }
     });
 
-    if (response.text) {
-      return JSON.parse(response.text) as ExtractedItem[];
-    }
-    return text.split(/[\n,]+/).map(s => ({ name: s.trim(), quantity: 1 })).filter(s => s.name.length > 0);
-  } catch (e) {
-    console.error("Failed to extract items", e);
-    return text.split(/[\n,]+/).map(s => ({ name: s.trim(), quantity: 1 })).filter(s => s.name.length > 0);
-  }
+    if (!response.text) throw new Error("Empty response");
+    return { value: JSON.parse(response.text) as ExtractedItem[], usage: usageOf(response) };
+  };
+
+  return { id: 'gemini', analyzeIntent, extractItems };
 };
@@ -0,0 +1,33 @@
+// Minimal promise wrappers around IndexedDB, shared by the local stores
+
+export const openDatabase = (name: string, version: number, upgrade: (db: IDBDatabase) => void): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = () => upgrade(request.result);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Runs `work` in one transaction and resolves with the result of the request
+ * it returns once the transaction has committed.
+ */
+export const runTransaction = async <T>(
+  open: () => Promise<IDBDatabase>,
+  stores: string | string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await open();
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const tx = db.transaction(stores, mode);
+      const request = work(tx);
+      tx.oncomplete = () => resolve(request ? request.result : undefined);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
@@ -0,0 +1,183 @@
+import { BulkSearchResult } from '../types';
+import { LINE_STATUS_LABELS, LineAllocation, LineStatus, allocatedQuantity, autoSelectScoreOf, getLineStatus } from './quotationLineService';
+import { ScoringProfile } from './scoringProfile';
+
+// Lines are filtered by what they currently resolve to, so a filter never
+// changes the quotation itself: hidden lines keep their selections, indexes
+// and place in the exports.
+
+export type ScoreBand = 'high' | 'medium' | 'low' | 'none';
+
+export const SCORE_BAND_LABELS: Record<ScoreBand, string> = {
+  high: 'Alta',
+  medium: 'Média',
+  low: 'Baixa',
+  none: 'Sem candidato',
+};
+
+export const SCORE_BAND_TITLES: Record<ScoreBand, string> = {
+  high: 'O produto tem todas as palavras importantes do pedido',
+  medium: 'Pontuação suficiente para a seleção automática',
+  low: 'Abaixo da seleção automática; depende de escolha manual',
+  none: 'Nenhum produto candidato para a linha',
+};
+
+export interface LineFilters {
+  statuses: LineStatus[];
+  brands: string[];
+  categories: string[];
+  scoreBands: ScoreBand[];
+  minPrice: number | null;   // Unit price of the chosen product(s)
+  maxPrice: number | null;
+  unresolvedOnly: boolean;   // Not found, or allocated quantity differs from the request
+}
+
+export const EMPTY_LINE_FILTERS: LineFilters = {
+  statuses: [],
+  brands: [],
+  categories: [],
+  scoreBands: [],
+  minPrice: null,
+  maxPrice: null,
+  unresolvedOnly: false,
+};
+
+// What the filters look at for one line
+export interface LineFacts {
+  index: number;
+  status: LineStatus;
+  brands: string[];
+  categories: string[];
+  prices: number[];
+  scoreBand: ScoreBand;
+  unresolved: boolean;
+}
+
+// 'high' starts at the perfect-match bonus: every important word of the request is in the title
+const scoreBandOf = (score: number | undefined, highScore: number, autoSelectScore: number): ScoreBand => {
+  if (score === undefined) return 'none';
+  if (score >= highScore) return 'high';
+  if (score >= autoSelectScore) return 'medium';
+  return 'low';
+};
+
+const distinct = (values: string[]) => Array.from(new Set(values.filter(Boolean)));
+
+// `profile` is the active one; a line scored with another profile is banded by that one
+export const describeLine = (index: number, result: BulkSearchResult, allocations: LineAllocation[], profile: ScoringProfile): LineFacts => {
+  // Unresolved lines are banded by their best candidate, so weak matches can be found
+  const scored = allocations.length > 0 ? allocations.map(a => a.product) : result.products.slice(0, 1);
+  const scores = scored.map(p => p.matchScore).filter((s): s is number => s !== undefined);
+  return {
+    index,
+    status: getLineStatus(result, allocations),
+    brands: distinct(allocations.map(a => a.product.brand)),
+    categories: distinct(allocations.map(a => a.product.category)),
+    prices: allocations.map(a => a.product.price).filter((p): p is number => p !== null),
+    scoreBand: scoreBandOf(
+      scores.length > 0 ? Math.min(...scores) : undefined,
+      (result.scoredWith?.profile ?? profile).perfectMatchBonus,
+      autoSelectScoreOf(result)
+    ),
+    unresolved: allocations.length === 0 || allocatedQuantity(allocations) !== result.detectedQuantity,
+  };
+};
+
+type FilterGroup = 'statuses' | 'brands' | 'categories' | 'scoreBands' | 'price' | 'unresolved';
+
+// `skip` leaves one group out, which is how each facet counts its own options
+const matches = (facts: LineFacts, filters: LineFilters, skip?: FilterGroup) => {
+  if (skip !== 'statuses' && filters.statuses.length > 0 && !filters.statuses.includes(facts.status)) return false;
+  if (skip !== 'brands' && filters.brands.length > 0 && !facts.brands.some(b => filters.brands.includes(b))) return false;
+  if (skip !== 'categories' && filters.categories.length > 0 && !facts.categories.some(c => filters.categories.includes(c))) return false;
+  if (skip !== 'scoreBands' && filters.scoreBands.length > 0 && !filters.scoreBands.includes(facts.scoreBand)) return false;
+  if (skip !== 'unresolved' && filters.unresolvedOnly && !facts.unresolved) return false;
+  if (skip !== 'price' && (filters.minPrice !== null || filters.maxPrice !== null)) {
+    const inRange = facts.prices.some(p =>
+      (filters.minPrice === null || p >= filters.minPrice) && (filters.maxPrice === null || p <= filters.maxPrice));
+    if (!inRange) return false;
+  }
+  return true;
+};
+
+export const matchesLineFilters = (facts: LineFacts, filters: LineFilters) => matches(facts, filters);
+
+export const hasLineFilters = (filters: LineFilters) =>
+  filters.statuses.length > 0 || filters.brands.length > 0 || filters.categories.length > 0 ||
+  filters.scoreBands.length > 0 || filters.minPrice !== null || filters.maxPrice !== null || filters.unresolvedOnly;
+
+export interface FacetCounts {
+  statuses: Record<LineStatus, number>;
+  brands: [string, number][];      // Most common first
+  categories: [string, number][];
+  scoreBands: Record<ScoreBand, number>;
+  unresolved: number;
+}
+
+const countValues = (lines: LineFacts[], valuesOf: (facts: LineFacts) => string[]): [string, number][] => {
+  const counts = new Map<string, number>();
+  lines.forEach(facts => valuesOf(facts).forEach(v => counts.set(v, (counts.get(v) || 0) + 1)));
+  return Array.from(counts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0], 'pt-BR'));
+};
+
+/**
+ * Lines each option would show. Every facet is counted with the other
+ * facets applied but not itself, so picking a second value of the same
+ * facet still shows how many lines it adds.
+ */
+export const countFacets = (lines: LineFacts[], filters: LineFilters): FacetCounts => {
+  const except = (group: FilterGroup) => lines.filter(facts => matches(facts, filters, group));
+
+  const statuses = { exact: 0, similar: 0, not_found: 0 } as Record<LineStatus, number>;
+  except('statuses').forEach(facts => { statuses[facts.status]++; });
+  const scoreBands = { high: 0, medium: 0, low: 0, none: 0 } as Record<ScoreBand, number>;
+  except('scoreBands').forEach(facts => { scoreBands[facts.scoreBand]++; });
+
+  return {
+    statuses,
+    brands: countValues(except('brands'), facts => facts.brands),
+    categories: countValues(except('categories'), facts => facts.categories),
+    scoreBands,
+    unresolved: except('unresolved').filter(facts => facts.unresolved).length,
+  };
+};
+
+export interface FilterChip {
+  key: string;
+  label: string;
+  remove: (filters: LineFilters) => LineFilters;
+}
+
+export const lineFilterChips = (filters: LineFilters, formatPrice: (value: number) => string): FilterChip[] => {
+  const chips: FilterChip[] = [];
+  filters.statuses.forEach(status => chips.push({
+    key: `status:${status}`,
+    label: LINE_STATUS_LABELS[status],
+    remove: f => ({ ...f, statuses: f.statuses.filter(s => s !== status) }),
+  }));
+  filters.brands.forEach(brand => chips.push({
+    key: `brand:${brand}`,
+    label: `Marca: ${brand}`,
+    remove: f => ({ ...f, brands: f.brands.filter(b => b !== brand) }),
+  }));
+  filters.categories.forEach(category => chips.push({
+    key: `category:${category}`,
+    label: `Categoria: ${category}`,
+    remove: f => ({ ...f, categories: f.categories.filter(c => c !== category) }),
+  }));
+  filters.scoreBands.forEach(band => chips.push({
+    key: `score:${band}`,
+    label: `Pontuação: ${SCORE_BAND_LABELS[band]}`,
+    remove: f => ({ ...f, scoreBands: f.scoreBands.filter(b => b !== band) }),
+  }));
+  if (filters.minPrice !== null || filters.maxPrice !== null) {
+    const label = filters.minPrice !== null && filters.maxPrice !== null
+      ? `${formatPrice(filters.minPrice)} a ${formatPrice(filters.maxPrice)}`
+      : filters.minPrice !== null ? `A partir de ${formatPrice(filters.minPrice)}` : `Até ${formatPrice(filters.maxPrice!)}`;
+    chips.push({ key: 'price', label: `Preço: ${label}`, remove: f => ({ ...f, minPrice: null, maxPrice: null }) });
+  }
+  if (filters.unresolvedOnly) {
+    chips.push({ key: 'unresolved', label: 'Só pendentes', remove: f => ({ ...f, unresolvedOnly: false }) });
+  }
+  return chips;
+};
@@ -0,0 +1,143 @@
+// Rule-based parser for pasted request lists: one item per line, with the
+// quantity written in any of the usual ways. Works offline and always gives
+// the same answer for the same text.
+
+export type LineConfidence = 'certain' | 'ambiguous';
+
+export interface ParsedLine {
+  line: number;              // 1-based line in the pasted text
+  raw: string;
+  name: string;
+  quantity: number;
+  confidence: LineConfidence; // 'ambiguous': no explicit quantity, or a bare trailing number
+  rule: string;              // Which rule found the quantity, for display
+}
+
+// Counting units: a number next to one of these is a quantity
+const COUNT_UNITS = 'un|und|unid|unids|unidades?|pç|pçs|pc|pcs|peças?|cx|cxs|caixas?|pct|pcts|pacotes?|frascos?|amp|amps|ampolas?|rl|rolos?|kits?|pares|par|tb|tubos?|gl|galão|galões|env|envelopes?|bisn|bisnagas?|jg|jogos?|conj|conjuntos?';
+// A number right before these is a size, not a quantity
+const MEASURE_UNITS = 'mm|cm|m|ml|l|lt|g|mg|kg|mcg|fr|french|gauge|pol|polegadas?|vias?|%|"';
+
+const LABELED = /\b(?:qtd|qtde|qde|quant|quantidade|qt)\.?\s*[:=]?\s*(\d+(?:[.,]\d+)?)/i;
+const LEADING_MULTIPLIER = /^(\d+)\s*[xX]\s+/;
+const TRAILING_MULTIPLIER = /\s+(?:[xX]\s*(\d+)|(\d+)\s*[xX])$/;
+// Units can end in an accented letter ("pç"), so word ends are checked with Unicode letters, not \b
+const UNIT_END = '(?![\\p{L}\\d])';
+const WITH_UNIT = new RegExp(`(?:^|\\s)(\\d+(?:[.,]\\d+)?)\\s*(?:${COUNT_UNITS})${UNIT_END}\\.?(?=\\s|$|[,;:-])`, 'iu');
+// "cx c/ 12", "caixa com 100": package contents, kept in the name
+const PACKAGE = new RegExp(`\\b(?:${COUNT_UNITS})\\.?\\s*(?:c\\/|com)\\s*\\d+(?:\\s*(?:${COUNT_UNITS}))?${UNIT_END}`, 'giu');
+const LEADING_NUMBER = new RegExp(`^(\\d+)\\s+(?!(?:${MEASURE_UNITS})(?:\\s|$))(?=[^\\d\\s])`, 'i');
+const SEPARATED_TRAILING = /(?:\s{2,}|\s*[-–:|]\s*)(\d+)$/;
+const TRAILING_NUMBER = /\s(\d+)$/;
+// "nº 14", "tam 8": the trailing number is part of the product
+const SIZE_PREFIX = /(?:n[º°o.]?|num|número|tam|tamanho|nr)\.?\s*\d+$/i;
+
+const BULLET = /^\s*(?:[-*•·▪►>]+|\(?[a-z]\)|\[\s?\])\s*/i;
+const NUMBERING = /^\s*(\d{1,4})\s*(?:[.)]|\s-\s|\s–\s)\s*/;
+
+const toNumber = (value: string) => parseFloat(value.replace(',', '.'));
+
+const cleanName = (value: string) =>
+  value
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s,;:\-–|]+|[\s,;:\-–|]+$/g, '')
+    .trim();
+
+const isPureQuantity = (cell: string) => new RegExp(`^\\d+(?:[.,]\\d+)?\\s*(?:(?:${COUNT_UNITS})${UNIT_END}\\.?)?$`, 'iu').test(cell.trim());
+
+const GREETING = /^(?:bom dia|boa tarde|boa noite|ol[áa]|oi|prezad[oa]s?|obrigad[oa]s?|grat[oa]|att|atenciosamente|segue|seguem)\b/i;
+const TABLE_HEADER = /^(?:descri[cç][aã]o|produto|item|material)s?(?:\s+(?:qtd|qtde|quantidade|un|und|unid))*$/i;
+
+// Lines that carry no product: only digits/punctuation, greetings, a heading
+// ending in ':', or the header row of a pasted table
+const isNoise = (text: string) =>
+  !/[a-zA-ZÀ-ÿ]{2,}/.test(text) ||
+  /:\s*$/.test(text) ||
+  (GREETING.test(text.trim()) && !/\d/.test(text)) ||
+  TABLE_HEADER.test(text.trim());
+
+/**
+ * Finds the quantity in one line of free text. Rules go from the most to the
+ * least explicit; package contents ("cx c/ 12") are never taken as quantity.
+ */
+export const parseItemText = (text: string): Omit<ParsedLine, 'line' | 'raw'> => {
+  // Mask package contents so their numbers are left alone
+  const packages: string[] = [];
+  let work = text.replace(PACKAGE, match => {
+    packages.push(match);
+    return `\u0000${packages.length - 1}\u0000`;
+  });
+  const restore = (value: string) => value.replace(/\u0000(\d+)\u0000/g, (_, i) => packages[parseInt(i)]);
+
+  const take = (pattern: RegExp, rule: string, confidence: LineConfidence = 'certain') => {
+    const match = work.match(pattern);
+    if (!match) return null;
+    const value = match.slice(1).find(Boolean) as string;
+    const quantity = toNumber(value);
+    if (!(quantity > 0)) return null;
+    const name = cleanName(restore(work.slice(0, match.index) + ' ' + work.slice((match.index || 0) + match[0].length)));
+    if (!name) return null;
+    return { name, quantity: Math.max(1, Math.round(quantity)), confidence, rule };
+  };
+
+  const found =
+    take(LABELED, 'qtd:') ||
+    take(LEADING_MULTIPLIER, '2x') ||
+    take(TRAILING_MULTIPLIER, 'x2') ||
+    take(WITH_UNIT, 'unidade') ||
+    take(new RegExp(`(?:^|\\s)(\\d+)\\s*(?=\\u0000)`), 'embalagem') ||
+    take(LEADING_NUMBER, 'início') ||
+    (!SIZE_PREFIX.test(work) && take(SEPARATED_TRAILING, 'fim')) ||
+    (!SIZE_PREFIX.test(work) && take(TRAILING_NUMBER, 'fim', 'ambiguous'));
+  if (found) return found;
+
+  return { name: cleanName(restore(work)), quantity: 1, confidence: 'ambiguous', rule: 'sem quantidade' };
+};
+
+// Tab-separated cells (pasted from a spreadsheet): the quantity is its own cell
+const parseCells = (cells: string[]): Omit<ParsedLine, 'line' | 'raw'> | null => {
+  const filled = cells.map(c => c.trim()).filter(Boolean);
+  if (filled.length < 2) return null;
+  const quantityCells = filled.map((c, i) => ({ c, i })).filter(({ c }) => isPureQuantity(c));
+  const textCells = filled.filter(c => !isPureQuantity(c));
+  if (textCells.length === 0) return null;
+  // Description and size often sit in separate columns ("Pinça Kelly", "14cm")
+  const name = textCells.join(' ');
+  if (quantityCells.length === 0) return { ...parseItemText(name), rule: 'tabela' };
+  // With several numeric cells the first is usually an item counter
+  const pick = quantityCells.length > 1 && quantityCells[0].i === 0 ? quantityCells[1] : quantityCells[0];
+  const quantity = toNumber(pick.c);
+  return { name: cleanName(name), quantity: Math.max(1, Math.round(quantity)) || 1, confidence: 'certain', rule: 'tabela' };
+};
+
+/**
+ * Splits pasted text into items. Bullets are dropped, and leading "1.", "2)"
+ * or "3 -" are treated as list numbering (not quantity) when the lines are
+ * numbered in sequence.
+ */
+export const parseRequestText = (text: string): ParsedLine[] => {
+  const lines = text.split(/\r?\n/).map((raw, i) => ({ raw, line: i + 1 })).filter(l => l.raw.trim());
+
+  // Numbering only counts when it runs 1, 2, 3... over the lines that have it
+  const numbers = lines.map(l => l.raw.match(NUMBERING)).filter(Boolean).map(m => parseInt(m![1]));
+  const isNumbered = numbers.length >= 2 && numbers.every((n, i) => i === 0 || n === numbers[i - 1] + 1);
+
+  const parsed: ParsedLine[] = [];
+  lines.forEach(({ raw, line }) => {
+    let text = raw.replace(BULLET, '');
+    if (isNumbered) text = text.replace(NUMBERING, '');
+    else text = text.replace(/^\s*\d{1,4}[.)]\s+/, '');
+
+    if (text.includes('\t')) {
+      const cells = parseCells(text.split('\t'));
+      if (cells) {
+        if (!isNoise(cells.name)) parsed.push({ line, raw, ...cells });
+        return;
+      }
+    }
+    if (isNoise(text)) return;
+    const item = parseItemText(text.trim());
+    if (item.name) parsed.push({ line, raw, ...item });
+  });
+  return parsed;
+};
@@ -0,0 +1,283 @@
+import { ExtractedItem, SearchIntent } from '../types';
+import { createGeminiProvider } from './geminiService';
+import { createMockProvider } from './mockLlmProvider';
+import { parseRequestText } from './listParser';
+import { normalizeText } from './matchScorer';
+
+export type LlmProviderId = 'gemini' | 'mock';
+export type LlmOperation = 'extract' | 'intent';
+
+export interface LlmUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export interface LlmResponse<T> {
+  value: T;
+  usage?: LlmUsage;
+}
+
+export interface LlmRequestOptions {
+  model: string;
+  signal: AbortSignal;       // Aborted when the call times out
+}
+
+// What every model backend implements. `extractItems` sets each item's
+// `line` to its 1-based line within `text` when it can tell.
+export interface LlmProvider {
+  id: LlmProviderId;
+  extractItems: (text: string, options: LlmRequestOptions) => Promise<LlmResponse<ExtractedItem[]>>;
+  analyzeIntent: (query: string, options: LlmRequestOptions) => Promise<LlmResponse<SearchIntent>>;
+}
+
+export interface LlmSettings {
+  provider: LlmProviderId;
+  model: string;
+  timeoutMs: number;
+  maxRetries: number;        // Extra attempts after the first one
+  backoffMs: number;         // Wait before the first retry; doubles on each further one
+}
+
+export interface LlmCallRecord {
+  id: number;
+  operation: LlmOperation;
+  provider: LlmProviderId;
+  model: string;
+  startedAt: number;
+  latencyMs: number;         // All attempts, backoff included
+  attempts: number;
+  usage?: LlmUsage;
+  error?: string;            // Reason of the last failed attempt; absent on success
+}
+
+// One line of the pasted text, with its position in the whole text
+export interface SourceLine {
+  line: number;
+  text: string;
+}
+
+export const LLM_PROVIDER_LABELS: Record<LlmProviderId, string> = {
+  gemini: 'Google Gemini',
+  mock: 'Simulado (offline)',
+};
+
+const API_KEY = process.env.API_KEY;
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  // Without a key the app still runs, on the deterministic stand-in
+  provider: API_KEY ? 'gemini' : 'mock',
+  model: 'gemini-3-flash-preview',
+  timeoutMs: 30000,
+  maxRetries: 2,
+  backoffMs: 800,
+};
+
+const STORAGE_KEY = 'atec.llmSettings.v1';
+// Records kept for the debug panel
+const MAX_RECORDS = 200;
+// Extraction prompts are kept small enough that the answer fits the output limit
+const CHUNK_MAX_LINES = 40;
+const CHUNK_MAX_CHARS = 4000;
+const CHUNK_CONCURRENCY = 3;
+
+export const loadLlmSettings = (): LlmSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_LLM_SETTINGS, ...JSON.parse(stored) } : DEFAULT_LLM_SETTINGS;
+  } catch (error) {
+    console.error("LLM settings load failed:", error);
+    return DEFAULT_LLM_SETTINGS;
+  }
+};
+
+let settings = loadLlmSettings();
+const providers: Partial<Record<LlmProviderId, LlmProvider>> = {};
+let records: LlmCallRecord[] = [];
+let nextRecordId = 1;
+const listeners = new Set<(records: LlmCallRecord[]) => void>();
+
+export const getLlmSettings = () => settings;
+
+export const updateLlmSettings = (patch: Partial<LlmSettings>) => {
+  settings = { ...settings, ...patch };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("LLM settings save failed:", error);
+  }
+  return settings;
+};
+
+export const getLlmCalls = () => records;
+
+// Calls `listener` with the full log after every call; returns the unsubscribe function
+export const subscribeLlmCalls = (listener: (records: LlmCallRecord[]) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const clearLlmCalls = () => {
+  records = [];
+  listeners.forEach(l => l(records));
+};
+
+const record = (entry: Omit<LlmCallRecord, 'id'>) => {
+  records = [{ ...entry, id: nextRecordId++ }, ...records].slice(0, MAX_RECORDS);
+  listeners.forEach(l => l(records));
+};
+
+// Providers are created once and reused, so the SDK client is not rebuilt per call
+const getProvider = (id: LlmProviderId): LlmProvider => {
+  if (!providers[id]) providers[id] = id === 'gemini' ? createGeminiProvider(API_KEY) : createMockProvider();
+  return providers[id]!;
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Client errors (bad request, auth) fail the same way on every attempt
+const isRetryable = (error: unknown) => {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status !== 'number' || status === 408 || status === 429 || status >= 500;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const attemptWithTimeout = <T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number): Promise<T> => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout>;
+  // Rejects even if the provider ignores the abort signal
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`Timed out after ${timeoutMs} ms`));
+    }, timeoutMs);
+  });
+  return Promise.race([run(controller.signal), timeout]).finally(() => clearTimeout(timer));
+};
+
+/**
+ * Runs one operation on the configured provider with timeout and retries,
+ * and records it in the call log. Throws the last error when every attempt
+ * fails.
+ */
+const callLlm = async <T>(
+  operation: LlmOperation,
+  run: (provider: LlmProvider, options: LlmRequestOptions) => Promise<LlmResponse<T>>
+): Promise<T> => {
+  const { provider: providerId, model, timeoutMs, maxRetries, backoffMs } = settings;
+  const startedAt = Date.now();
+  const provider = getProvider(providerId);
+  let attempts = 0;
+
+  for (;;) {
+    attempts++;
+    try {
+      const response = await attemptWithTimeout(signal => run(provider, { model, signal }), timeoutMs);
+      record({ operation, provider: providerId, model, startedAt, latencyMs: Date.now() - startedAt, attempts, usage: response.usage });
+      return response.value;
+    } catch (error) {
+      if (attempts > maxRetries || !isRetryable(error)) {
+        record({ operation, provider: providerId, model, startedAt, latencyMs: Date.now() - startedAt, attempts, error: errorMessage(error) });
+        throw error;
+      }
+      await sleep(backoffMs * 2 ** (attempts - 1));
+    }
+  }
+};
+
+// Splits on line boundaries; a single overlong line still gets a chunk of its own
+const chunkLines = (lines: SourceLine[]): SourceLine[][] => {
+  const chunks: SourceLine[][] = [];
+  let current: SourceLine[] = [];
+  let chars = 0;
+  lines.forEach(line => {
+    if (current.length > 0 && (current.length >= CHUNK_MAX_LINES || chars + line.text.length > CHUNK_MAX_CHARS)) {
+      chunks.push(current);
+      current = [];
+      chars = 0;
+    }
+    current.push(line);
+    chars += line.text.length + 1;
+  });
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+};
+
+// Runs `task` over `items` with at most `limit` in flight; results keep the input order
+const mapWithConcurrency = async <T, R>(items: T[], limit: number, task: (item: T, index: number) => Promise<R>): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+// When the provider gives no usable line number, pick the chunk line sharing the most words with the name
+const guessLine = (name: string, chunk: SourceLine[]) => {
+  const words = normalizeText(name).split(' ').filter(Boolean);
+  let best = chunk[0];
+  let bestScore = 0;
+  chunk.forEach(candidate => {
+    const text = ` ${normalizeText(candidate.text)} `;
+    const score = words.filter(w => text.includes(` ${w} `)).length;
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  });
+  return best.line;
+};
+
+// Maps chunk-relative line numbers back to lines of the whole text
+const placeInChunk = (items: ExtractedItem[], chunk: SourceLine[]): ExtractedItem[] =>
+  items.map(item => {
+    const relative = Math.round(Number(item.line));
+    const line = relative >= 1 && relative <= chunk.length ? chunk[relative - 1].line : guessLine(item.name, chunk);
+    return { ...item, line };
+  });
+
+// Used when the model is unavailable, so names with commas stay whole
+const extractLocally = (text: string): ExtractedItem[] =>
+  parseRequestText(text).map(line => ({ name: line.name, quantity: line.quantity, source: 'local', line: line.line }));
+
+/**
+ * Extracts items from the given lines in chunks, a few at a time, and returns
+ * them in line order. A chunk whose call fails is parsed locally instead, so
+ * one bad chunk does not lose the rest of the list.
+ */
+export const extractShoppingItems = async (
+  lines: SourceLine[],
+  onProgress?: (done: number, total: number) => void
+): Promise<ExtractedItem[]> => {
+  const chunks = chunkLines(lines);
+  let done = 0;
+  const extracted = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, async chunk => {
+    const text = chunk.map(line => line.text).join('\n');
+    let items: ExtractedItem[];
+    try {
+      const found = await callLlm('extract', (provider, options) => provider.extractItems(text, options));
+      items = found.map(item => ({ ...item, source: 'ai' }));
+    } catch (error) {
+      console.error("Failed to extract items", error);
+      items = extractLocally(text);
+    }
+    onProgress?.(++done, chunks.length);
+    return placeInChunk(items, chunk);
+  });
+  // Stable sort: items split from the same line keep the model's order
+  return extracted.flat().sort((a, b) => a.line! - b.line!);
+};
+
+export const analyzeSearchIntent = async (query: string): Promise<SearchIntent> => {
+  try {
+    return await callLlm('intent', (provider, options) => provider.analyzeIntent(query, options));
+  } catch (error) {
+    console.error("Intent analysis failed:", error);
+    return { keywords: query.split(' ') };
+  }
+};
@@ -0,0 +1,324 @@
+import { MappedProduct } from '../types';
+import type { Lexicon } from './thesaurusService';
+import { DEFAULT_SCORING_PROFILE, ScoringProfile } from './scoringProfile';
+import { Measure, MeasureComparison, compareMeasures, isMeasureToken, parseMeasures } from './measureParser';
+
+export const normalizeText = (text: string): string => {
+  return text.toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+};
+
+// Standard Levenshtein implementation
+export const levenshtein = (a: string, b: string): number => {
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  const matrix = [];
+
+  for (let i = 0; i <= b.length; i++) {
+    matrix[i] = [i];
+  }
+
+  for (let j = 0; j <= a.length; j++) {
+    matrix[0][j] = j;
+  }
+
+  for (let i = 1; i <= b.length; i++) {
+    for (let j = 1; j <= a.length; j++) {
+      if (b.charAt(i - 1) === a.charAt(j - 1)) {
+        matrix[i][j] = matrix[i - 1][j - 1];
+      } else {
+        matrix[i][j] = Math.min(
+          matrix[i - 1][j - 1] + 1,
+          matrix[i][j - 1] + 1,
+          matrix[i - 1][j] + 1
+        );
+      }
+    }
+  }
+
+  return matrix[b.length][a.length];
+};
+
+// A query broken down once so it can be scored against many products.
+// `tokenScores` memoizes the per-token similarity, since the same title
+// tokens ("pinca", "reta", "14") repeat across thousands of products.
+export interface PreparedQuery {
+  tokens: string[];
+  classes: TokenClass[];
+  weights: number[];
+  synonyms: string[][];
+  important: boolean[];
+  tokenScores: Map<string, number>[];
+  measures: Measure[];
+  profile: ScoringProfile;
+}
+
+// A product title tokenized once, at index time.
+export interface PreparedProduct {
+  normalizedTitle: string;
+  tokens: string[];
+  measures: Measure[];
+}
+
+export const getSynonyms = (lexicon: Lexicon, token: string): string[] => lexicon.synonyms[token] || [token];
+
+export type TokenClass = 'stopword' | 'modifier' | 'category' | 'number' | 'specific';
+
+export const getTokenClass = (lexicon: Lexicon, qToken: string): TokenClass => {
+  if (lexicon.stopWords.has(qToken)) return 'stopword';
+  if (lexicon.modifierTerms.has(qToken)) return 'modifier';
+  if (lexicon.categoryTerms.has(qToken)) return 'category';
+  if (!isNaN(Number(qToken))) return 'number';
+  return 'specific';
+};
+
+// Tokens that must appear in the title for the "perfect match" bonus
+export const isImportantToken = (lexicon: Lexicon, qToken: string): boolean => {
+  // Stop words don't break "perfect match" if missing
+  if (lexicon.stopWords.has(qToken)) return false;
+  if (qToken.length < 3 && !isNaN(Number(qToken))) return false; // Ignore small numbers for this check
+  return true;
+};
+
+// Rewrites user abbreviations ("p agulha" -> "porta agulha") in a token list
+export const expandAbbreviations = (lexicon: Lexicon, tokens: string[]): string[] => {
+  if (lexicon.abbreviations.length === 0) return tokens;
+  const expanded: string[] = [];
+  let i = 0;
+  while (i < tokens.length) {
+    const match = lexicon.abbreviations.find(([from]) => from.every((t, k) => tokens[i + k] === t));
+    if (match) {
+      expanded.push(...match[1]);
+      i += match[0].length;
+    } else {
+      expanded.push(tokens[i]);
+      i++;
+    }
+  }
+  return expanded;
+};
+
+export const prepareQuery = (query: string, lexicon: Lexicon, profile: ScoringProfile = DEFAULT_SCORING_PROFILE): PreparedQuery => {
+  const tokens = expandAbbreviations(lexicon, normalizeText(query).split(" ").filter(t => t.length > 0));
+  // Measures are weighed as numbers below, not as words that must appear in the title
+  const measureTokens = tokens.map((_, i) => isMeasureToken(tokens, i));
+  const classes = tokens.map((t, i): TokenClass => (measureTokens[i] ? 'number' : getTokenClass(lexicon, t)));
+  return {
+    tokens,
+    classes,
+    weights: classes.map(c => profile.weights[c]),
+    synonyms: tokens.map(t => getSynonyms(lexicon, t)),
+    important: tokens.map((t, i) => !measureTokens[i] && isImportantToken(lexicon, t)),
+    tokenScores: tokens.map(() => new Map<string, number>()),
+    measures: parseMeasures(query),
+    profile,
+  };
+};
+
+export const prepareProduct = (product: MappedProduct): PreparedProduct => {
+  const normalizedTitle = normalizeText(product.title);
+  return { normalizedTitle, tokens: normalizedTitle.split(" "), measures: parseMeasures(product.title) };
+};
+
+// Similarity (0..1) between one query token and one title token.
+// Which matches are tried depends on the token's class, not its weight,
+// so tuning the weights never changes what counts as a match.
+export const scoreTokenPair = (qToken: string, tokenClass: TokenClass, synonyms: string[], pToken: string): number => {
+  // A. Exact Match or Synonym Match
+  if (synonyms.some(s => s === pToken)) return 1.0;
+
+  // B. Prefix Match (e.g. "Volk" matches "Volkmann") - only for names and product types
+  if ((tokenClass === 'specific' || tokenClass === 'category') && qToken.length > 3 && pToken.startsWith(qToken)) return 0.9;
+
+  // C. Fuzzy Match (Levenshtein)
+  // Only for non-stop words longer than 3 chars
+  if (tokenClass !== 'stopword' && qToken.length > 3) {
+    const threshold = qToken.length > 6 ? 2 : 1;
+    // Cheap length check before running the full matrix
+    if (Math.abs(qToken.length - pToken.length) > threshold) return 0;
+    const dist = levenshtein(qToken, pToken);
+    if (dist <= threshold) {
+      // Score degrades with distance
+      return 1.0 - (dist * 0.2);
+    }
+  }
+  return 0;
+};
+
+const isAccessoryMismatch = (anchorSynonyms: string[], productTokens: string[]) => {
+  const isCaboQuery = anchorSynonyms.includes('cabo') || anchorSynonyms.includes('suporte');
+  const productIsAccessory = productTokens.includes('cabo') || productTokens.includes('suporte');
+  return productIsAccessory && !isCaboQuery;
+};
+
+// A confirmed size only adds to products that matched a word of the request,
+// so it never brings in an unrelated product (the search index relies on this)
+const measureBonus = (comparisons: MeasureComparison[], profile: ScoringProfile, wordsMatched: boolean) =>
+  wordsMatched ? comparisons.filter(c => c.match === 'match').length * profile.measureBonus : 0;
+
+const measurePenalty = (comparisons: MeasureComparison[], profile: ScoringProfile) =>
+  comparisons.filter(c => c.match === 'mismatch').length * profile.measurePenalty;
+
+export const scorePrepared = (query: PreparedQuery, product: PreparedProduct): number => {
+  const { tokens: queryTokens, profile } = query;
+  const { normalizedTitle, tokens: productTokens } = product;
+
+  if (queryTokens.length === 0) return 0;
+
+  let totalScore = 0;
+  let wordsMatched = false;
+
+  // 1. Check if all important tokens are present (Boost for "Perfect" matches)
+  const allImportantTokensPresent = queryTokens.every((_, i) => {
+    if (!query.important[i]) return true;
+    return query.synonyms[i].some(syn => normalizedTitle.includes(syn));
+  });
+
+  if (allImportantTokensPresent) totalScore += profile.perfectMatchBonus;
+
+  // 2. Token Matching with Weights
+  queryTokens.forEach((qToken, i) => {
+    const tokenWeight = query.weights[i];
+    const memo = query.tokenScores[i];
+    let bestTokenScore = 0;
+
+    // Check against all product tokens
+    for (const pToken of productTokens) {
+      let pairScore = memo.get(pToken);
+      if (pairScore === undefined) {
+        pairScore = scoreTokenPair(qToken, query.classes[i], query.synonyms[i], pToken);
+        memo.set(pToken, pairScore);
+      }
+      if (pairScore > bestTokenScore) bestTokenScore = pairScore;
+      if (bestTokenScore === 1.0) break;
+    }
+
+    if (bestTokenScore > 0) {
+      totalScore += (bestTokenScore * tokenWeight);
+      wordsMatched = true;
+    }
+  });
+
+  // 3. Anchor Bias (First word matches)
+  const anchorSynonyms = query.synonyms[0];
+  // Check if product title starts with anchor or contains anchor near start
+  const anchorIndex = productTokens.findIndex(p => anchorSynonyms.includes(p));
+  if (anchorIndex === 0) {
+    totalScore += profile.anchorFirstBonus;
+  } else if (anchorIndex > 0) {
+    totalScore += profile.anchorNearBonus;
+  }
+
+  // 4. Accessory Penalty
+  // If product is "Cabo para..." but query didn't ask for "Cabo"
+  if (isAccessoryMismatch(anchorSynonyms, productTokens)) {
+    totalScore -= profile.accessoryPenalty;
+  }
+
+  // 5. Sizes, compared as numbers: "16 cm" no longer passes for "14 cm"
+  if (query.measures.length > 0) {
+    const comparisons = compareMeasures(query.measures, product.measures, profile.measureTolerance);
+    totalScore += measureBonus(comparisons, profile, wordsMatched) - measurePenalty(comparisons, profile);
+  }
+
+  return totalScore;
+};
+
+export const calculateMatchScore = (product: MappedProduct, query: string, lexicon: Lexicon, profile: ScoringProfile = DEFAULT_SCORING_PROFILE): number => {
+  return scorePrepared(prepareQuery(query, lexicon, profile), prepareProduct(product));
+};
+
+export type TokenMatchType = 'exact' | 'synonym' | 'prefix' | 'fuzzy' | 'none';
+
+// How one query token contributed to the score
+export interface TokenExplanation {
+  token: string;
+  tokenClass: TokenClass;
+  weight: number;
+  match: TokenMatchType;
+  matchedToken?: string;  // Title token it matched
+  distance?: number;      // Edit distance, for fuzzy matches
+  points: number;         // weight x similarity
+}
+
+export interface ScoreBreakdown {
+  total: number;
+  perfectMatchBonus: number;
+  missingImportant: string[];  // Important tokens absent from the title; any one cancels the bonus
+  tokens: TokenExplanation[];
+  anchorBonus: number;
+  anchorPosition: number;      // Title position of the first query word, -1 when absent
+  accessoryPenalty: number;    // Negative when applied
+  measures: MeasureComparison[];
+  measureBonus: number;
+  measurePenalty: number;      // Negative when applied
+  matchedTitleTokens: string[];
+}
+
+// Names the kind of match behind a `scoreTokenPair` similarity
+const matchTypeOf = (qToken: string, pToken: string, similarity: number): Pick<TokenExplanation, 'match' | 'distance'> => {
+  if (similarity === 1.0) return { match: pToken === qToken ? 'exact' : 'synonym' };
+  if (similarity === 0.9 && pToken.startsWith(qToken)) return { match: 'prefix' };
+  return { match: 'fuzzy', distance: levenshtein(qToken, pToken) };
+};
+
+/**
+ * Same score as `calculateMatchScore`, split into the parts that make it up,
+ * so a ranking can be explained to the user.
+ */
+export const explainMatchScore = (product: MappedProduct, query: string, lexicon: Lexicon, profile: ScoringProfile = DEFAULT_SCORING_PROFILE): ScoreBreakdown => {
+  const prepared = prepareQuery(query, lexicon, profile);
+  const { normalizedTitle, tokens: productTokens, measures: productMeasures } = prepareProduct(product);
+  const empty: ScoreBreakdown = {
+    total: 0, perfectMatchBonus: 0, missingImportant: [], tokens: [], anchorBonus: 0, anchorPosition: -1, accessoryPenalty: 0,
+    measures: [], measureBonus: 0, measurePenalty: 0, matchedTitleTokens: [],
+  };
+  if (prepared.tokens.length === 0) return empty;
+
+  const missingImportant = prepared.tokens.filter((_, i) =>
+    prepared.important[i] && !prepared.synonyms[i].some(syn => normalizedTitle.includes(syn)));
+  const perfectMatchBonus = missingImportant.length === 0 ? profile.perfectMatchBonus : 0;
+
+  const tokens = prepared.tokens.map((qToken, i): TokenExplanation => {
+    const weight = prepared.weights[i];
+    let best = 0;
+    let bestToken = '';
+    for (const pToken of productTokens) {
+      const similarity = scoreTokenPair(qToken, prepared.classes[i], prepared.synonyms[i], pToken);
+      if (similarity > best) {
+        best = similarity;
+        bestToken = pToken;
+      }
+      if (best === 1.0) break;
+    }
+    const base = { token: qToken, tokenClass: prepared.classes[i], weight };
+    if (best === 0) return { ...base, match: 'none', points: 0 };
+    return { ...base, ...matchTypeOf(qToken, bestToken, best), matchedToken: bestToken, points: best * weight };
+  });
+
+  const anchorPosition = productTokens.findIndex(p => prepared.synonyms[0].includes(p));
+  const anchorBonus = anchorPosition === 0 ? profile.anchorFirstBonus : anchorPosition > 0 ? profile.anchorNearBonus : 0;
+  const accessoryPenalty = isAccessoryMismatch(prepared.synonyms[0], productTokens) ? -profile.accessoryPenalty : 0;
+  const measures = compareMeasures(prepared.measures, productMeasures, profile.measureTolerance);
+  const bonusForMeasures = measureBonus(measures, profile, tokens.some(t => t.match !== 'none'));
+  const penaltyForMeasures = -measurePenalty(measures, profile);
+
+  return {
+    total: perfectMatchBonus + tokens.reduce((sum, t) => sum + t.points, 0) + anchorBonus + accessoryPenalty + bonusForMeasures + penaltyForMeasures,
+    perfectMatchBonus,
+    missingImportant,
+    tokens,
+    anchorBonus,
+    anchorPosition,
+    accessoryPenalty,
+    measures,
+    measureBonus: bonusForMeasures,
+    measurePenalty: penaltyForMeasures,
+    matchedTitleTokens: Array.from(new Set(tokens.map(t => t.matchedToken).filter((t): t is string => Boolean(t)))),
+  };
+};
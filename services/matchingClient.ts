@@ -0,0 +1,99 @@
+import { ExtractedItem, MappedProduct } from '../types';
+import { Lexicon } from './thesaurusService';
+import { AliasStore } from './aliasService';
+import { ScoringProfile } from './scoringProfile';
+import type { IndexedBulkResult, MatchingRequest, MatchingResponse } from './matchingWorker';
+
+export type { IndexedBulkResult } from './matchingWorker';
+
+export interface MatchingCallbacks {
+  onResults: (results: IndexedBulkResult[], processed: number, total: number) => void;
+  onDone: (cancelled: boolean) => void;
+  onError: (error: unknown) => void;
+}
+
+export interface MatchingClient {
+  setCatalog: (products: MappedProduct[]) => void;
+  setLexicon: (lexicon: Lexicon) => void;
+  setAliases: (aliases: AliasStore) => void;
+  setProfile: (profile: ScoringProfile) => void;
+  // Starts a run and returns a function that cancels it
+  run: (items: ExtractedItem[], callbacks: MatchingCallbacks) => () => void;
+  // Single query against the same index, best match first
+  search: (query: string, limit: number) => Promise<MappedProduct[]>;
+  terminate: () => void;
+}
+
+/**
+ * Main-thread handle to the matching worker. The worker keeps its own search
+ * index, so the catalog is only transferred once per load.
+ */
+export const createMatchingClient = (): MatchingClient => {
+  const worker = new Worker(new URL('./matchingWorker.ts', import.meta.url), { type: 'module' });
+  let nextRunId = 1;
+  let activeRun: { runId: number; callbacks: MatchingCallbacks } | null = null;
+  const pendingSearches = new Map<number, { resolve: (products: MappedProduct[]) => void; reject: (error: Error) => void }>();
+  let nextRequestId = 1;
+
+  const send = (message: MatchingRequest) => worker.postMessage(message);
+
+  worker.onmessage = (event: MessageEvent<MatchingResponse>) => {
+    const message = event.data;
+    if (message.type === 'searchResults') {
+      pendingSearches.get(message.requestId)?.resolve(message.products);
+      pendingSearches.delete(message.requestId);
+      return;
+    }
+    if (!activeRun || message.runId !== activeRun.runId) return;
+
+    if (message.type === 'results') {
+      activeRun.callbacks.onResults(message.results, message.processed, message.total);
+    } else {
+      const { callbacks } = activeRun;
+      activeRun = null;
+      callbacks.onDone(message.cancelled);
+    }
+  };
+
+  worker.onerror = (event: ErrorEvent) => {
+    pendingSearches.forEach(({ reject }) => reject(new Error(event.message)));
+    pendingSearches.clear();
+    if (!activeRun) {
+      console.error("Matching worker error:", event.message);
+      return;
+    }
+    const { callbacks } = activeRun;
+    activeRun = null;
+    callbacks.onError(new Error(event.message));
+  };
+
+  const setCatalog = (products: MappedProduct[]) => send({ type: 'catalog', products });
+
+  const setLexicon = (lexicon: Lexicon) => send({ type: 'lexicon', lexicon });
+
+  const setAliases = (aliases: AliasStore) => send({ type: 'aliases', aliases });
+
+  const setProfile = (profile: ScoringProfile) => send({ type: 'profile', profile });
+
+  const run = (items: ExtractedItem[], callbacks: MatchingCallbacks) => {
+    const runId = nextRunId++;
+    activeRun = { runId, callbacks };
+    send({ type: 'match', runId, items });
+    return () => send({ type: 'cancel', runId });
+  };
+
+  const search = (query: string, limit: number) => new Promise<MappedProduct[]>((resolve, reject) => {
+    const requestId = nextRequestId++;
+    pendingSearches.set(requestId, { resolve, reject });
+    send({ type: 'search', requestId, query, limit });
+  });
+
+  const terminate = () => {
+    activeRun = null;
+    pendingSearches.forEach(({ reject }) => reject(new Error("Matching worker terminated")));
+    pendingSearches.clear();
+    worker.terminate();
+  };
+
+  return { setCatalog, setLexicon, setAliases, setProfile, run, search, terminate };
+};
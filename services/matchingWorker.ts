@@ -0,0 +1,127 @@
+import type { BulkSearchResult, ExtractedItem, MappedProduct } from '../types';
+import { createSearchIndex, SearchIndex } from './searchService';
+import { DEFAULT_LEXICON, Lexicon } from './thesaurusService';
+import { AliasStore, findAlias } from './aliasService';
+import { calculateMatchScore } from './matchScorer';
+import { DEFAULT_SCORING_PROFILE, ScoringProfile } from './scoringProfile';
+
+export type MatchingRequest =
+  | { type: 'catalog'; products: MappedProduct[] }
+  | { type: 'lexicon'; lexicon: Lexicon }
+  | { type: 'aliases'; aliases: AliasStore }
+  | { type: 'profile'; profile: ScoringProfile }
+  | { type: 'match'; runId: number; items: ExtractedItem[] }
+  | { type: 'search'; requestId: number; query: string; limit: number }
+  | { type: 'cancel'; runId: number };
+
+export interface IndexedBulkResult {
+  index: number; // Position of the item in the extracted list
+  result: BulkSearchResult;
+}
+
+export type MatchingResponse =
+  | { type: 'results'; runId: number; results: IndexedBulkResult[]; processed: number; total: number }
+  | { type: 'done'; runId: number; cancelled: boolean }
+  | { type: 'searchResults'; requestId: number; products: MappedProduct[] };
+
+// Results are flushed at least this often (ms) so the table fills in progressively
+const FLUSH_INTERVAL = 50;
+
+const ctx = self as unknown as Worker;
+let searchIndex: SearchIndex = createSearchIndex([]);
+let lexicon: Lexicon = DEFAULT_LEXICON;
+let aliases: AliasStore = {};
+let profile: ScoringProfile = DEFAULT_SCORING_PROFILE;
+let activeRunId: number | null = null;
+
+const post = (message: MatchingResponse) => ctx.postMessage(message);
+
+// Yields to the event loop so pending 'cancel' messages get delivered
+const yieldToEventLoop = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Items arrive with the quantity already split from the name (see listParser)
+const matchItem = (index: SearchIndex, item: ExtractedItem): BulkSearchResult => {
+  const searchName = item.name.trim();
+
+  let products = index.search(searchName, { minScore: profile.minScore, limit: 500, lexicon, profile });
+  let learnedProductId: string | undefined;
+
+  // A product the user picked before for this term goes first, whatever its score
+  const alias = findAlias(aliases, searchName);
+  const learned = alias ? index.findProduct(alias.code, alias.supplier) : undefined;
+  if (learned) {
+    const scored = products.find(p => p.id === learned.id)
+      || { ...learned, matchScore: calculateMatchScore(learned, searchName, lexicon, profile) };
+    products = [scored, ...products.filter(p => p.id !== learned.id)];
+    learnedProductId = learned.id;
+  }
+
+  return {
+    term: searchName,
+    originalTerm: item.name,
+    products,
+    detectedQuantity: Math.max(1, Math.round(item.quantity) || 1),
+    learnedProductId,
+    extractedBy: item.source,
+    autoSelectScore: profile.autoSelectScore
+  };
+};
+
+const runMatching = async (runId: number, items: ExtractedItem[]) => {
+  activeRunId = runId;
+  let pending: IndexedBulkResult[] = [];
+  let lastFlush = Date.now();
+
+  const flush = (processed: number) => {
+    post({ type: 'results', runId, results: pending, processed, total: items.length });
+    pending = [];
+    lastFlush = Date.now();
+  };
+
+  for (let i = 0; i < items.length; i++) {
+    if (activeRunId !== runId) {
+      // Lines already matched are kept, so the partial list is complete up to here
+      if (pending.length > 0) flush(i);
+      post({ type: 'done', runId, cancelled: true });
+      return;
+    }
+
+    pending.push({ index: i, result: matchItem(searchIndex, items[i]) });
+
+    if (Date.now() - lastFlush >= FLUSH_INTERVAL) {
+      flush(i + 1);
+      await yieldToEventLoop();
+    }
+  }
+
+  flush(items.length);
+  activeRunId = null;
+  post({ type: 'done', runId, cancelled: false });
+};
+
+ctx.onmessage = (event: MessageEvent<MatchingRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'catalog':
+      searchIndex = createSearchIndex(message.products);
+      break;
+    case 'lexicon':
+      lexicon = message.lexicon;
+      break;
+    case 'aliases':
+      aliases = message.aliases;
+      break;
+    case 'profile':
+      profile = message.profile;
+      break;
+    case 'match':
+      runMatching(message.runId, message.items);
+      break;
+    case 'search':
+      post({ type: 'searchResults', requestId: message.requestId, products: searchIndex.search(message.query, { minScore: profile.minScore, limit: message.limit, lexicon, profile }) });
+      break;
+    case 'cancel':
+      if (activeRunId === message.runId) activeRunId = null;
+      break;
+  }
+};
@@ -0,0 +1,137 @@
+// Sizes written in request lines and product titles ("14cm", "5MMX16CM",
+// "ø 3 mm", "nº 15", "3 ganchos"), read as numbers so they can be compared
+// with a tolerance instead of as text.
+
+export type MeasureKind = 'length' | 'diameter' | 'size' | 'count';
+
+export interface Measure {
+  kind: MeasureKind;
+  value: number;  // Millimetres for lengths and diameters; the number as written otherwise
+  noun?: string;  // What is counted, singular ("gancho"), for counts
+  label: string;  // As shown to the user: "14 cm", "ø 3 mm", "nº 15", "3 ganchos"
+}
+
+export type MeasureMatch = 'match' | 'mismatch' | 'missing';
+
+export interface MeasureComparison {
+  requested: Measure;
+  found?: Measure;    // Product measure it was paired with; none when the title doesn't state it
+  match: MeasureMatch;
+}
+
+const MM_PER_UNIT: Record<string, number> = { mm: 1, cm: 10, m: 1000 };
+
+const NUMBER = '\\d+(?:[.,]\\d+)?';
+// A bare "m" glued to a whole number is usually part of a name ("Tegaderm 3M"),
+// so metres need a space or a decimal: "3 m", "1,5m"
+const UNIT_NAME = '(?:mm|cm|(?<=\\s|[.,]\\d+)m)';
+const UNIT = `${UNIT_NAME}(?![a-z])`;
+// A number not glued to a longer number or word on its left
+const START = '(?<![\\d.,a-z])';
+
+// "5mm x 16cm", "10 x 10 cm": a part without a unit takes the unit of the last part
+const CHAIN = new RegExp(`${START}(?:${NUMBER}\\s*${UNIT_NAME}?\\s*x\\s*)+${NUMBER}\\s*${UNIT}`, 'g');
+const DIAMETER = new RegExp(`(?:ø|diam(?:etro)?\\.?)\\s*(${NUMBER})\\s*(${UNIT})?`, 'g');
+const SIZE = new RegExp(`(?<![a-z])(?:n[º°o]?|nr|num|numero|tam|tamanho)\\.?\\s*(${NUMBER})(?![\\d.,]*\\s*${UNIT})`, 'g');
+const LENGTH = new RegExp(`${START}(${NUMBER})\\s*(${UNIT})`, 'g');
+// Parts counted on the instrument itself; package counts are quantities (see listParser)
+const COUNT = new RegExp(`${START}(\\d+)\\s+(ganchos?|dentes?|garras?|laminas?|pontas?|furos?|vias?|valvas?|ramos?)(?![a-z])`, 'g');
+
+const toNumber = (value: string) => parseFloat(value.replace(',', '.'));
+
+const formatNumber = (value: number) => value.toLocaleString('pt-BR', { maximumFractionDigits: 2 });
+
+const lengthMeasure = (kind: 'length' | 'diameter', value: string, unit: string): Measure => ({
+  kind,
+  value: toNumber(value) * MM_PER_UNIT[unit],
+  label: `${kind === 'diameter' ? 'ø ' : ''}${formatNumber(toNumber(value))} ${unit}`,
+});
+
+const singular = (noun: string) => noun.replace(/s$/, '');
+
+/**
+ * Every measure in a line of text, in reading order. Each pattern masks what
+ * it read, so "5mmx16cm" gives two lengths and is not read again as "16cm".
+ */
+export const parseMeasures = (text: string): Measure[] => {
+  let work = text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/×/g, 'x');
+  const found: { at: number; measure: Measure }[] = [];
+
+  const scan = (pattern: RegExp, read: (match: string[]) => Measure[]) => {
+    work = work.replace(pattern, (matched: string, ...rest: unknown[]) => {
+      const at = rest[rest.length - 2] as number;
+      read([matched, ...(rest.slice(0, -2) as string[])]).forEach(measure => found.push({ at, measure }));
+      return ' '.repeat(matched.length);
+    });
+  };
+
+  scan(CHAIN, match => {
+    const parts = match[0].split('x').map(part => part.trim().match(new RegExp(`^(${NUMBER})\\s*(mm|cm|m)?$`)));
+    const lastUnit = parts[parts.length - 1]?.[2] || 'mm';
+    return parts.filter((part): part is RegExpMatchArray => part !== null).map(part => lengthMeasure('length', part[1], part[2] || lastUnit));
+  });
+  scan(DIAMETER, match => [lengthMeasure('diameter', match[1], match[2] || 'mm')]);
+  scan(SIZE, match => [{ kind: 'size', value: toNumber(match[1]), label: `nº ${match[1]}` }]);
+  scan(LENGTH, match => [lengthMeasure('length', match[1], match[2])]);
+  scan(COUNT, match => [{ kind: 'count', value: parseInt(match[1]), noun: singular(match[2]), label: `${match[1]} ${match[2]}` }]);
+
+  return found.sort((a, b) => a.at - b.at).map(f => f.measure);
+};
+
+const MEASURE_TOKEN = /^\d+(?:mm|cm)?(?:x\d+(?:mm|cm)?)*$/;
+const UNIT_TOKENS = new Set(['mm', 'cm', 'm']);
+
+/**
+ * Whether a normalized query token is part of a written measure: "14cm",
+ * "5mmx16cm", or the "14" of "14 cm". Those are judged by the measures
+ * themselves, so the scorer doesn't also weigh them as words.
+ */
+export const isMeasureToken = (tokens: string[], i: number): boolean => {
+  const token = tokens[i];
+  if (token === 'x') return /^\d/.test(tokens[i - 1] || '') && /^\d/.test(tokens[i + 1] || '');
+  if (!MEASURE_TOKEN.test(token)) return false;
+  if (/[a-z]/.test(token)) return true;
+  const next = tokens[i + 1];
+  return next !== undefined && (UNIT_TOKENS.has(next) || next === 'x' || (/[a-z]/.test(next) && MEASURE_TOKEN.test(next)));
+};
+
+// Lengths and diameters compare with each other, since titles often drop the "ø"
+const familyOf = (measure: Measure) => {
+  if (measure.kind === 'diameter') return 'length';
+  if (measure.kind === 'count') return `count:${measure.noun}`;
+  return measure.kind;
+};
+
+const withinTolerance = (requested: Measure, found: Measure, tolerancePercent: number) => {
+  if (requested.kind === 'size' || requested.kind === 'count') return requested.value === found.value;
+  const allowed = Math.max(requested.value, found.value) * tolerancePercent / 100;
+  return Math.abs(requested.value - found.value) <= allowed + 1e-9;
+};
+
+/**
+ * Pairs each requested measure with the closest product measure of the same
+ * family, each product measure used once. A request measure left without a
+ * pair is 'missing' (the title doesn't say), not a mismatch: "Afastador 16cm"
+ * neither confirms nor contradicts the "5mm" of "5mm x 16cm".
+ */
+export const compareMeasures = (requested: Measure[], offered: Measure[], tolerancePercent: number): MeasureComparison[] => {
+  const pairs: { r: number; o: number; distance: number }[] = [];
+  requested.forEach((req, r) => offered.forEach((off, o) => {
+    if (familyOf(req) === familyOf(off)) pairs.push({ r, o, distance: Math.abs(req.value - off.value) });
+  }));
+  pairs.sort((a, b) => a.distance - b.distance);
+
+  const paired = new Map<number, Measure>();
+  const used = new Set<number>();
+  pairs.forEach(({ r, o }) => {
+    if (paired.has(r) || used.has(o)) return;
+    paired.set(r, offered[o]);
+    used.add(o);
+  });
+
+  return requested.map((req, r): MeasureComparison => {
+    const found = paired.get(r);
+    if (!found) return { requested: req, match: 'missing' };
+    return { requested: req, found, match: withinTolerance(req, found, tolerancePercent) ? 'match' : 'mismatch' };
+  });
+};
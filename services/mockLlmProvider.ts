@@ -0,0 +1,51 @@
+import { SearchIntent } from '../types';
+import type { LlmProvider, LlmUsage } from './llmService';
+import { parseRequestText } from './listParser';
+
+// Deterministic stand-in for the model: same input, same output, no network.
+// Lets the app be developed and demoed without an API key.
+
+const STOPWORDS = new Set(['para', 'com', 'sem', 'que', 'uma', 'uns', 'umas', 'dos', 'das', 'por', 'até', 'acima', 'partir', 'mais', 'menos', 'quero', 'preciso', 'reais']);
+
+// Rough token count, ~4 characters per token
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const usageFor = (input: string, output: unknown): LlmUsage => ({
+  inputTokens: estimateTokens(input),
+  outputTokens: estimateTokens(JSON.stringify(output)),
+});
+
+const PRICE = '(?:r\\$\\s*)?(\\d+(?:[.,]\\d+)?)';
+const MAX_PRICE = new RegExp(`(?:até|abaixo de|menos de|no máximo)\\s*${PRICE}`, 'i');
+const MIN_PRICE = new RegExp(`(?:acima de|a partir de|mais de|no mínimo)\\s*${PRICE}`, 'i');
+
+const priceIn = (query: string, pattern: RegExp) => {
+  const match = query.match(pattern);
+  return match ? parseFloat(match[1].replace(',', '.')) : undefined;
+};
+
+const analyze = (query: string): SearchIntent => {
+  const keywords = query
+    .toLowerCase()
+    .replace(/r\$\s*\d+(?:[.,]\d+)?/g, ' ')
+    .split(/[^a-zà-ÿ0-9]+/)
+    .filter(word => word.length >= 3 && !STOPWORDS.has(word) && !/^\d+$/.test(word));
+  const intent: SearchIntent = { keywords: keywords.length ? keywords : [query.trim()] };
+  const minPrice = priceIn(query, MIN_PRICE);
+  const maxPrice = priceIn(query, MAX_PRICE);
+  if (minPrice !== undefined) intent.minPrice = minPrice;
+  if (maxPrice !== undefined) intent.maxPrice = maxPrice;
+  return intent;
+};
+
+export const createMockProvider = (): LlmProvider => ({
+  id: 'mock',
+  extractItems: async (text) => {
+    const items = parseRequestText(text).map(line => ({ name: line.name, quantity: line.quantity, line: line.line }));
+    return { value: items, usage: usageFor(text, items) };
+  },
+  analyzeIntent: async (query) => {
+    const intent = analyze(query);
+    return { value: intent, usage: usageFor(query, intent) };
+  },
+});
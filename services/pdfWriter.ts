@@ -0,0 +1,245 @@
+// Minimal PDF 1.4 writer: standard Helvetica fonts, text, lines, rectangles
+// and JPEG images. Coordinates are in points from the top-left corner.
+
+export const A4 = { width: 595.28, height: 841.89 };
+
+export type PdfFont = 'regular' | 'bold';
+
+export interface TextOptions {
+  size?: number;
+  font?: PdfFont;
+  color?: string;              // #RRGGBB
+  align?: 'left' | 'right' | 'center';
+}
+
+export interface PdfPage {
+  text: (x: number, y: number, value: string, options?: TextOptions) => void;
+  line: (x1: number, y1: number, x2: number, y2: number, color?: string, width?: number) => void;
+  rect: (x: number, y: number, width: number, height: number, fill: string) => void;
+  image: (name: string, x: number, y: number, width: number, height: number) => void;
+}
+
+export interface PdfDocument {
+  addPage: () => PdfPage;
+  pageCount: () => number;
+  page: (index: number) => PdfPage;
+  embedJpeg: (data: Uint8Array, width: number, height: number) => string;
+  toBlob: () => Blob;
+}
+
+// Advance widths (1/1000 em) for ASCII 32..126, from the standard AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// WinAnsiEncoding code points outside Latin-1, with their widths
+const WIN_ANSI_EXTRA: Record<string, { code: number; width: number }> = {
+  '€': { code: 0x80, width: 556 },
+  '…': { code: 0x85, width: 1000 },
+  '‘': { code: 0x91, width: 222 },
+  '’': { code: 0x92, width: 222 },
+  '“': { code: 0x93, width: 333 },
+  '”': { code: 0x94, width: 333 },
+  '•': { code: 0x95, width: 350 },
+  '–': { code: 0x96, width: 556 },
+  '—': { code: 0x97, width: 1000 },
+};
+
+const charWidth = (char: string, font: PdfFont): number => {
+  const table = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const code = char.charCodeAt(0);
+  if (code >= 32 && code <= 126) return table[code - 32];
+  if (WIN_ANSI_EXTRA[char]) return WIN_ANSI_EXTRA[char].width;
+  if (char === '\u00A0') return table[0]; // Currency formatting uses non-breaking spaces
+  // Accented letters are as wide as their base letter
+  const base = char.normalize('NFD').charCodeAt(0);
+  if (base >= 32 && base <= 126) return table[base - 32];
+  return 556;
+};
+
+export const textWidth = (value: string, size: number, font: PdfFont = 'regular'): number => {
+  let units = 0;
+  for (const char of value) units += charWidth(char, font);
+  return (units * size) / 1000;
+};
+
+// Cuts the text with an ellipsis so it fits in `width`
+export const fitText = (value: string, width: number, size: number, font: PdfFont = 'regular'): string => {
+  if (textWidth(value, size, font) <= width) return value;
+  let cut = value;
+  while (cut.length > 0 && textWidth(`${cut}…`, size, font) > width) cut = cut.slice(0, -1);
+  return `${cut.trimEnd()}…`;
+};
+
+/**
+ * Word-wraps the text into lines no wider than `width`. Words longer than a
+ * line are broken; `maxLines` truncates the last line with an ellipsis.
+ */
+export const wrapText = (value: string, width: number, size: number, font: PdfFont = 'regular', maxLines = Infinity): string[] => {
+  const lines: string[] = [];
+  value.split(/\r?\n/).forEach(paragraph => {
+    let current = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = current ? `${current} ${word}` : word;
+      if (textWidth(candidate, size, font) <= width) {
+        current = candidate;
+        return;
+      }
+      if (current) lines.push(current);
+      current = word;
+      while (textWidth(current, size, font) > width && current.length > 1) {
+        let fit = current.length - 1;
+        while (fit > 1 && textWidth(current.slice(0, fit), size, font) > width) fit--;
+        lines.push(current.slice(0, fit));
+        current = current.slice(fit);
+      }
+    });
+    lines.push(current);
+  });
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  kept[maxLines - 1] = fitText(`${kept[maxLines - 1]} ${lines[maxLines]}`, width, size, font);
+  return kept;
+};
+
+const encodeText = (value: string): string => {
+  let hex = '';
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    const byte = code < 256 && char.length === 1 ? code : WIN_ANSI_EXTRA[char]?.code ?? 0x3f; // '?'
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return `<${hex}>`;
+};
+
+const num = (value: number) => (Math.round(value * 100) / 100).toString();
+
+const rgb = (color: string) => {
+  const value = parseInt(color.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map(c => num(c / 255)).join(' ');
+};
+
+interface PdfImage {
+  name: string;
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export const createPdfDocument = (pageWidth = A4.width, pageHeight = A4.height): PdfDocument => {
+  const pages: { ops: string[]; api: PdfPage }[] = [];
+  const images: PdfImage[] = [];
+
+  const addPage = (): PdfPage => {
+    const ops: string[] = [];
+    const y = (top: number) => num(pageHeight - top);
+    const api: PdfPage = {
+      text: (x, top, value, options = {}) => {
+        const { size = 10, font = 'regular', color = '#1E293B', align = 'left' } = options;
+        const width = textWidth(value, size, font);
+        const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+        // `top` is the baseline
+        ops.push(`BT /${font === 'bold' ? 'F2' : 'F1'} ${num(size)} Tf ${rgb(color)} rg ${num(left)} ${y(top)} Td ${encodeText(value)} Tj ET`);
+      },
+      line: (x1, y1, x2, y2, color = '#CBD5E1', width = 0.5) => {
+        ops.push(`${rgb(color)} RG ${num(width)} w ${num(x1)} ${y(y1)} m ${num(x2)} ${y(y2)} l S`);
+      },
+      rect: (x, top, width, height, fill) => {
+        ops.push(`${rgb(fill)} rg ${num(x)} ${y(top + height)} ${num(width)} ${num(height)} re f`);
+      },
+      image: (name, x, top, width, height) => {
+        ops.push(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${y(top + height)} cm /${name} Do Q`);
+      },
+    };
+    pages.push({ ops, api });
+    return api;
+  };
+
+  const embedJpeg = (data: Uint8Array, width: number, height: number): string => {
+    const name = `Im${images.length + 1}`;
+    images.push({ name, data, width, height });
+    return name;
+  };
+
+  const toBlob = (): Blob => {
+    const chunks: (string | Uint8Array)[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    // Everything but image data is ASCII, so string length equals byte length
+    const push = (chunk: string | Uint8Array) => {
+      chunks.push(chunk);
+      length += chunk.length;
+    };
+    const object = (id: number, body: string) => {
+      offsets[id] = length;
+      push(`${id} 0 obj\n${body}\nendobj\n`);
+    };
+
+    const fontIds = { F1: 3, F2: 4 };
+    const firstImageId = 5;
+    const firstPageId = firstImageId + images.length;
+    const pageIds = pages.map((_, i) => firstPageId + i * 2);
+
+    push('%PDF-1.4\n');
+    object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+    object(fontIds.F1, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    object(fontIds.F2, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+    images.forEach((image, i) => {
+      const id = firstImageId + i;
+      offsets[id] = length;
+      push(`${id} 0 obj\n<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>\nstream\n`);
+      push(image.data);
+      push('\nendstream\nendobj\n');
+    });
+
+    const xObjects = images.map((image, i) => `/${image.name} ${firstImageId + i} 0 R`).join(' ');
+    pages.forEach((page, i) => {
+      const id = pageIds[i];
+      const content = page.ops.join('\n');
+      object(id, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(pageWidth)} ${num(pageHeight)}] /Resources << /Font << /F1 ${fontIds.F1} 0 R /F2 ${fontIds.F2} 0 R >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >> /Contents ${id + 1} 0 R >>`);
+      object(id + 1, `<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    });
+
+    const objectCount = firstPageId + pages.length * 2;
+    const xrefOffset = length;
+    let xref = `xref\n0 ${objectCount}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objectCount; id++) xref += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    push(`${xref}trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    const bytes = new Uint8Array(length);
+    let at = 0;
+    chunks.forEach(chunk => {
+      if (typeof chunk === 'string') {
+        for (let i = 0; i < chunk.length; i++) bytes[at + i] = chunk.charCodeAt(i);
+      } else {
+        bytes.set(chunk, at);
+      }
+      at += chunk.length;
+    });
+    return new Blob([bytes], { type: 'application/pdf' });
+  };
+
+  return {
+    addPage,
+    pageCount: () => pages.length,
+    page: index => pages[index].api,
+    embedJpeg,
+    toBlob,
+  };
+};
@@ -0,0 +1,167 @@
+import { BulkSearchResult, QuotationMap } from '../types';
+import { getLineAllocations } from './quotationLineService';
+import { hashText } from './csvService';
+import { downloadBlob, downloadCsv, escapeHtml, formatDecimal, slugify, toCsv } from './fileExport';
+import { createZip } from './xlsxWriter';
+
+export interface PurchaseOrderLine {
+  term: string;          // Line of the customer's request this item covers
+  code: string;
+  title: string;
+  unit: string;
+  quantity: number;
+  unitPrice: number | null;
+  total: number;
+}
+
+export interface PurchaseOrder {
+  supplier: string;
+  sources: string[];     // Catalog sources the supplier's products came from
+  lines: PurchaseOrderLine[];
+  subtotal: number;
+}
+
+// Quotation details printed on every order
+export interface PurchaseOrderMeta {
+  quoteName?: string;
+  customer?: string;
+  issuedAt: number;
+}
+
+/**
+ * Groups every chosen product of the quotation by supplier. Split lines add
+ * one order line per supplier they are sourced from.
+ */
+export const buildPurchaseOrders = (results: BulkSearchResult[], selections: QuotationMap): PurchaseOrder[] => {
+  const bySupplier = new Map<string, PurchaseOrder>();
+
+  results.forEach((result, idx) => {
+    getLineAllocations(result, selections[idx]).forEach(({ product, quantity }) => {
+      let order = bySupplier.get(product.supplier);
+      if (!order) {
+        order = { supplier: product.supplier, sources: [], lines: [], subtotal: 0 };
+        bySupplier.set(product.supplier, order);
+      }
+      if (!order.sources.includes(product.sourceName)) order.sources.push(product.sourceName);
+      const total = (product.price || 0) * quantity;
+      order.lines.push({
+        term: result.term,
+        code: product.code,
+        title: product.title,
+        unit: product.unit,
+        quantity,
+        unitPrice: product.price,
+        total,
+      });
+      order.subtotal += total;
+    });
+  });
+
+  return Array.from(bySupplier.values()).sort((a, b) => a.supplier.localeCompare(b.supplier));
+};
+
+const dateLabel = (time: number) => new Date(time).toLocaleDateString('pt-BR');
+
+// Suppliers whose names slugify alike ("ABC Ltda." and "ABC-Ltda") still get distinct files
+export const purchaseOrderFilename = (order: PurchaseOrder, extension: string) =>
+  `pedido_${slugify(order.supplier)}_${hashText(order.supplier)}.${extension}`;
+
+const purchaseOrderRows = (order: PurchaseOrder, meta: PurchaseOrderMeta) => {
+  const rows: (string | number)[][] = [
+    ['Pedido de compra', order.supplier],
+    ['Data', dateLabel(meta.issuedAt)],
+  ];
+  if (meta.quoteName) rows.push(['Cotação', meta.quoteName]);
+  if (meta.customer) rows.push(['Cliente', meta.customer]);
+  rows.push([]);
+  rows.push(['Código', 'Produto', 'Unidade', 'Quantidade', 'Preço Unitário', 'Preço Total', 'Item Solicitado']);
+  order.lines.forEach(line => {
+    rows.push([
+      line.code,
+      line.title,
+      line.unit,
+      line.quantity,
+      line.unitPrice !== null ? formatDecimal(line.unitPrice) : '',
+      formatDecimal(line.total),
+      line.term,
+    ]);
+  });
+  rows.push(['', '', '', '', 'SUBTOTAL', formatDecimal(order.subtotal), '']);
+  return rows;
+};
+
+export const exportPurchaseOrderCsv = (order: PurchaseOrder, meta: PurchaseOrderMeta) => {
+  downloadCsv(purchaseOrderRows(order, meta), purchaseOrderFilename(order, 'csv'));
+};
+
+// Every order in one ZIP: browsers block a burst of separate downloads after the first
+export const exportPurchaseOrdersZip = (orders: PurchaseOrder[], meta: PurchaseOrderMeta) => {
+  const encoder = new TextEncoder();
+  const files = orders.map(order => ({
+    path: purchaseOrderFilename(order, 'csv'),
+    data: encoder.encode(toCsv(purchaseOrderRows(order, meta))),
+  }));
+  downloadBlob(createZip(files), `pedidos_${slugify(meta.quoteName || 'cotacao')}.zip`);
+};
+
+// Standalone page for printing one order, independent of the app's layout
+export const purchaseOrderHtml = (order: PurchaseOrder, meta: PurchaseOrderMeta): string => {
+  const currency = (value: number) => `R$ ${formatDecimal(value)}`;
+  const rows = order.lines.map(line => `
+      <tr>
+        <td class="mono">${escapeHtml(line.code)}</td>
+        <td>${escapeHtml(line.title)}<div class="muted">${escapeHtml(line.term)}</div></td>
+        <td class="center">${escapeHtml(line.unit)}</td>
+        <td class="center">${line.quantity}</td>
+        <td class="right">${line.unitPrice !== null ? currency(line.unitPrice) : 'Sob consulta'}</td>
+        <td class="right">${currency(line.total)}</td>
+      </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8">
+<title>Pedido de compra - ${escapeHtml(order.supplier)}</title>
+<style>
+  body { font-family: Arial, sans-serif; font-size: 12px; color: #1e293b; margin: 32px; }
+  h1 { font-size: 18px; color: #1E5FCD; margin: 0 0 4px; }
+  .meta { margin-bottom: 16px; color: #475569; }
+  table { width: 100%; border-collapse: collapse; }
+  th { text-align: left; font-size: 10px; text-transform: uppercase; color: #64748b; border-bottom: 2px solid #cbd5e1; padding: 6px; }
+  td { border-bottom: 1px solid #e2e8f0; padding: 6px; vertical-align: top; }
+  .mono { font-family: monospace; }
+  .muted { font-size: 10px; color: #94a3b8; }
+  .center { text-align: center; }
+  .right { text-align: right; white-space: nowrap; }
+  tfoot td { font-weight: bold; border-bottom: none; }
+</style>
+</head>
+<body>
+  <h1>Pedido de compra — ${escapeHtml(order.supplier)}</h1>
+  <div class="meta">
+    Data: ${dateLabel(meta.issuedAt)}
+    ${meta.quoteName ? ` • Cotação: ${escapeHtml(meta.quoteName)}` : ''}
+    ${meta.customer ? ` • Cliente: ${escapeHtml(meta.customer)}` : ''}
+  </div>
+  <table>
+    <thead>
+      <tr><th>Código</th><th>Produto</th><th class="center">Un.</th><th class="center">Qtd</th><th class="right">Valor Unit.</th><th class="right">Valor Total</th></tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+    <tfoot>
+      <tr><td colspan="5" class="right">Subtotal</td><td class="right">${currency(order.subtotal)}</td></tr>
+    </tfoot>
+  </table>
+</body>
+</html>`;
+};
+
+export const printPurchaseOrder = (order: PurchaseOrder, meta: PurchaseOrderMeta) => {
+  const win = window.open('', '_blank');
+  if (!win) throw new Error("Popup blocked");
+  win.document.write(purchaseOrderHtml(order, meta));
+  win.document.close();
+  win.focus();
+  win.print();
+};
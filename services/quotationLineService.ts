@@ -0,0 +1,59 @@
+import { BulkSearchResult, MappedProduct } from '../types';
+import { normalizeText } from './matchScorer';
+import { DEFAULT_SCORING_PROFILE } from './scoringProfile';
+
+// Best match at or above this score is picked automatically for a line,
+// unless the line records the threshold of the profile it was matched with
+export const AUTO_SELECT_SCORE = DEFAULT_SCORING_PROFILE.autoSelectScore;
+
+export const autoSelectScoreOf = (result: BulkSearchResult) => result.autoSelectScore ?? AUTO_SELECT_SCORE;
+
+// One product chosen for a requested line and how many units come from it
+export interface LineAllocation {
+  product: MappedProduct;
+  quantity: number;
+}
+
+export type LineStatus = 'exact' | 'similar' | 'not_found';
+
+/**
+ * Products a line is sourced from. `selection` is the line's entry in the
+ * QuotationMap. Only the selected products that are visible (not hidden by
+ * the supplier or source filter) are returned; an entry with none of them
+ * visible, or an empty one, means nothing is picked here. Only a line without
+ * an entry falls back to the best match above its auto-select score.
+ */
+export const getLineAllocations = (result: BulkSearchResult, selection?: Record<string, number>): LineAllocation[] => {
+  if (selection) {
+    const chosen: LineAllocation[] = [];
+    Object.keys(selection).forEach(id => {
+      const product = result.products.find(p => p.id === id);
+      if (product) chosen.push({ product, quantity: selection[id] });
+    });
+    return chosen;
+  }
+
+  const best = result.products[0];
+  if (best && (best.matchScore || 0) >= autoSelectScoreOf(result)) {
+    return [{ product: best, quantity: result.detectedQuantity }];
+  }
+  return [];
+};
+
+export const allocatedQuantity = (allocations: LineAllocation[]) => allocations.reduce((sum, a) => sum + a.quantity, 0);
+
+export const allocationsTotal = (allocations: LineAllocation[]) =>
+  allocations.reduce((sum, a) => sum + (a.product.price || 0) * a.quantity, 0);
+
+// Exact only when every chosen product is named exactly as requested
+export const getLineStatus = (result: BulkSearchResult, allocations: LineAllocation[]): LineStatus => {
+  if (allocations.length === 0) return 'not_found';
+  const term = normalizeText(result.term);
+  return allocations.every(a => normalizeText(a.product.title) === term) ? 'exact' : 'similar';
+};
+
+export const LINE_STATUS_LABELS: Record<LineStatus, string> = {
+  exact: 'Exato',
+  similar: 'Similar',
+  not_found: 'Não Encontrado',
+};
@@ -0,0 +1,336 @@
+import { BulkSearchResult, QuotationMap } from '../types';
+import { getLineAllocations } from './quotationLineService';
+import { A4, PdfPage, createPdfDocument, fitText, wrapText } from './pdfWriter';
+import { downloadBlob, slugify } from './fileExport';
+
+// Defaults kept between documents
+export interface QuotationDocumentSettings {
+  companyName: string;
+  companyDetails: string;    // Address, CNPJ, phone... one per line
+  validityDays: number;
+  paymentTerms: string;
+  notes: string;
+  nextNumber: number;
+}
+
+// What is printed on one document
+export interface QuotationDocumentInfo {
+  number: string;
+  customerName: string;
+  customerDocument: string;
+  customerContact: string;
+  issuedAt: number;
+  validityDays: number;
+  paymentTerms: string;
+  notes: string;
+}
+
+export interface QuotationDocumentItem {
+  term: string;
+  code: string;
+  title: string;
+  unit: string;
+  quantity: number;
+  unitPrice: number | null;
+  total: number;
+  quoted: boolean;           // False for requested lines with no product
+}
+
+export interface JpegImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export const COMPANY_LOGO_URL = 'https://atecmedicalsearch.vercel.app/logo.png';
+
+const STORAGE_KEY = 'atec.quotationDocument.v1';
+
+export const DEFAULT_DOCUMENT_SETTINGS: QuotationDocumentSettings = {
+  companyName: 'ATEC MEDICAL',
+  companyDetails: '',
+  validityDays: 15,
+  paymentTerms: '28 dias após o faturamento',
+  notes: 'Preços sujeitos à disponibilidade de estoque no momento do pedido.',
+  nextNumber: 1,
+};
+
+export const loadDocumentSettings = (): QuotationDocumentSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_DOCUMENT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_DOCUMENT_SETTINGS;
+  } catch (error) {
+    console.error("Quotation document settings load failed:", error);
+    return DEFAULT_DOCUMENT_SETTINGS;
+  }
+};
+
+export const saveDocumentSettings = (settings: QuotationDocumentSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Quotation document settings save failed:", error);
+  }
+};
+
+export const formatQuoteNumber = (sequence: number, issuedAt: number) =>
+  `${new Date(issuedAt).getFullYear()}/${String(sequence).padStart(4, '0')}`;
+
+/**
+ * One item per product the quotation uses; requested lines without a product
+ * are kept so the customer sees what could not be quoted.
+ */
+export const buildDocumentItems = (results: BulkSearchResult[], selections: QuotationMap): QuotationDocumentItem[] =>
+  results.flatMap<QuotationDocumentItem>((result, idx) => {
+    const allocations = getLineAllocations(result, selections[idx]);
+    if (allocations.length === 0) {
+      return [{ term: result.term, code: '', title: '', unit: '', quantity: result.detectedQuantity, unitPrice: null, total: 0, quoted: false }];
+    }
+    return allocations.map(({ product, quantity }) => ({
+      term: result.term,
+      code: product.code,
+      title: product.title,
+      unit: product.unit,
+      quantity,
+      unitPrice: product.price,
+      total: (product.price || 0) * quantity,
+      quoted: true,
+    }));
+  });
+
+/**
+ * Rasterizes the logo to JPEG so it can be embedded. Returns null when the
+ * image cannot be loaded or read back (e.g. the host sends no CORS headers).
+ */
+export const loadLogoJpeg = (url: string = COMPANY_LOGO_URL): Promise<JpegImage | null> =>
+  new Promise(resolve => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onerror = () => resolve(null);
+    img.onload = () => {
+      try {
+        const canvas = document.createElement('canvas');
+        canvas.width = img.naturalWidth;
+        canvas.height = img.naturalHeight;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return resolve(null);
+        // JPEG has no transparency
+        ctx.fillStyle = '#FFFFFF';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(img, 0, 0);
+        canvas.toBlob(async blob => {
+          if (!blob) return resolve(null);
+          resolve({ data: new Uint8Array(await blob.arrayBuffer()), width: canvas.width, height: canvas.height });
+        }, 'image/jpeg', 0.92);
+      } catch (error) {
+        console.error("Logo rasterization failed:", error);
+        resolve(null);
+      }
+    };
+    img.src = url;
+  });
+
+const BRAND = '#1E5FCD';
+const TEXT = '#1E293B';
+const MUTED = '#64748B';
+const LIGHT = '#94A3B8';
+const ZEBRA = '#F8FAFC';
+
+const MARGIN = 40;
+const CONTENT_WIDTH = A4.width - MARGIN * 2;
+const FOOTER_TOP = A4.height - 40;
+const BODY_BOTTOM = FOOTER_TOP - 16;
+
+const COLUMNS = [
+  { key: 'index', label: '#', width: 22, align: 'center' },
+  { key: 'code', label: 'Código', width: 62, align: 'left' },
+  { key: 'description', label: 'Descrição', width: CONTENT_WIDTH - 298, align: 'left' },
+  { key: 'unit', label: 'Un.', width: 32, align: 'center' },
+  { key: 'quantity', label: 'Qtd', width: 36, align: 'center' },
+  { key: 'unitPrice', label: 'Valor Unit.', width: 70, align: 'right' },
+  { key: 'total', label: 'Valor Total', width: 76, align: 'right' },
+] as const;
+
+const CELL_PADDING = 4;
+const HEADER_HEIGHT = 18;
+const LINE_HEIGHT = 10;
+
+const currencyFormatter = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' });
+const dateLabel = (time: number) => new Date(time).toLocaleDateString('pt-BR');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// x where a cell's text starts (or ends, for right-aligned columns)
+const cellAnchor = (column: number) => {
+  let x = MARGIN;
+  for (let i = 0; i < column; i++) x += COLUMNS[i].width;
+  const { width, align } = COLUMNS[column];
+  if (align === 'right') return x + width - CELL_PADDING;
+  if (align === 'center') return x + width / 2;
+  return x + CELL_PADDING;
+};
+
+/**
+ * Lays out the quotation on A4 pages. Long tables continue on new pages with
+ * the column headers repeated; every page gets a "page x of y" footer.
+ */
+export const generateQuotationPdf = (
+  items: QuotationDocumentItem[],
+  info: QuotationDocumentInfo,
+  settings: QuotationDocumentSettings,
+  logo: JpegImage | null
+): Blob => {
+  const doc = createPdfDocument();
+  const logoName = logo ? doc.embedJpeg(logo.data, logo.width, logo.height) : null;
+  let page: PdfPage = doc.addPage();
+  let y = MARGIN;
+
+  const drawTableHeader = () => {
+    page.rect(MARGIN, y, CONTENT_WIDTH, HEADER_HEIGHT, BRAND);
+    COLUMNS.forEach((column, i) => {
+      page.text(cellAnchor(i), y + 12, column.label.toUpperCase(), { size: 7, font: 'bold', color: '#FFFFFF', align: column.align });
+    });
+    y += HEADER_HEIGHT;
+  };
+
+  // Smaller header for continuation pages
+  const newPage = (withTableHeader: boolean) => {
+    page = doc.addPage();
+    y = MARGIN;
+    page.text(MARGIN, y + 10, settings.companyName, { size: 10, font: 'bold', color: BRAND });
+    page.text(MARGIN + CONTENT_WIDTH, y + 10, `Proposta nº ${info.number} (continuação)`, { size: 8, color: MUTED, align: 'right' });
+    y += 18;
+    page.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y);
+    y += 12;
+    if (withTableHeader) drawTableHeader();
+  };
+
+  const ensureSpace = (height: number, withTableHeader: boolean) => {
+    if (y + height > BODY_BOTTOM) newPage(withTableHeader);
+  };
+
+  // Company header
+  let companyTop = y;
+  if (logo && logoName) {
+    const height = 36;
+    const width = Math.min(160, (logo.width / logo.height) * height);
+    page.image(logoName, MARGIN, y, width, (logo.height / logo.width) * width);
+    companyTop = y + 44;
+  } else {
+    page.text(MARGIN, y + 18, settings.companyName, { size: 18, font: 'bold', color: BRAND });
+    companyTop = y + 28;
+  }
+  settings.companyDetails.split('\n').filter(l => l.trim()).forEach((detail, i) => {
+    page.text(MARGIN, companyTop + i * 10, fitText(detail.trim(), CONTENT_WIDTH / 2, 8), { size: 8, color: MUTED });
+  });
+  const detailLines = settings.companyDetails.split('\n').filter(l => l.trim()).length;
+
+  page.text(MARGIN + CONTENT_WIDTH, y + 14, 'PROPOSTA COMERCIAL', { size: 14, font: 'bold', color: BRAND, align: 'right' });
+  page.text(MARGIN + CONTENT_WIDTH, y + 30, `Nº ${info.number}`, { size: 10, font: 'bold', color: TEXT, align: 'right' });
+  y = Math.max(companyTop + detailLines * 10, y + 40) + 6;
+  page.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y, BRAND, 1);
+  y += 18;
+
+  // Customer and commercial conditions side by side
+  const half = CONTENT_WIDTH / 2 - 10;
+  const rightX = MARGIN + CONTENT_WIDTH / 2 + 10;
+  const blockTop = y;
+  page.text(MARGIN, y, 'CLIENTE', { size: 7, font: 'bold', color: LIGHT });
+  y += 12;
+  page.text(MARGIN, y, fitText(info.customerName || 'Não informado', half, 10, 'bold'), { size: 10, font: 'bold' });
+  [info.customerDocument, info.customerContact].filter(Boolean).forEach(line => {
+    y += 11;
+    page.text(MARGIN, y, fitText(line, half, 8.5), { size: 8.5, color: MUTED });
+  });
+  const leftBottom = y;
+
+  y = blockTop;
+  const validUntil = info.issuedAt + info.validityDays * DAY_MS;
+  const conditions: [string, string][] = [
+    ['EMISSÃO', dateLabel(info.issuedAt)],
+    ['VALIDADE', `${dateLabel(validUntil)} (${info.validityDays} ${info.validityDays === 1 ? 'dia' : 'dias'})`],
+  ];
+  conditions.forEach(([label, value], i) => {
+    const x = rightX + i * (half / 2);
+    page.text(x, y, label, { size: 7, font: 'bold', color: LIGHT });
+    page.text(x, y + 12, value, { size: 9, font: 'bold' });
+  });
+  y += 28;
+  page.text(rightX, y, 'CONDIÇÕES DE PAGAMENTO', { size: 7, font: 'bold', color: LIGHT });
+  wrapText(info.paymentTerms || '—', half, 8.5, 'regular', 3).forEach(line => {
+    y += 11;
+    page.text(rightX, y, line, { size: 8.5 });
+  });
+  y = Math.max(leftBottom, y) + 20;
+
+  // Items
+  drawTableHeader();
+  const descriptionWidth = COLUMNS[2].width - CELL_PADDING * 2;
+  items.forEach((item, i) => {
+    const titleLines = item.quoted ? wrapText(item.title, descriptionWidth, 8.5, 'regular', 3) : ['Item não cotado'];
+    const height = CELL_PADDING * 2 + titleLines.length * LINE_HEIGHT + 9;
+    ensureSpace(height, true);
+
+    if (i % 2 === 1) page.rect(MARGIN, y, CONTENT_WIDTH, height, ZEBRA);
+    const baseline = y + CELL_PADDING + 8;
+    const color = item.quoted ? TEXT : LIGHT;
+    page.text(cellAnchor(0), baseline, String(i + 1), { size: 8, color: MUTED, align: 'center' });
+    page.text(cellAnchor(1), baseline, fitText(item.code || '—', COLUMNS[1].width - CELL_PADDING * 2, 8), { size: 8, color: MUTED });
+    titleLines.forEach((line, l) => page.text(cellAnchor(2), baseline + l * LINE_HEIGHT, line, { size: 8.5, color }));
+    page.text(cellAnchor(2), baseline + titleLines.length * LINE_HEIGHT, fitText(`Solicitado: ${item.term}`, descriptionWidth, 7), { size: 7, color: LIGHT });
+    page.text(cellAnchor(3), baseline, fitText(item.unit || '—', COLUMNS[3].width - CELL_PADDING * 2, 8), { size: 8, color, align: 'center' });
+    page.text(cellAnchor(4), baseline, String(item.quantity), { size: 8, color, align: 'center' });
+    const unitPrice = !item.quoted ? '—' : item.unitPrice === null ? 'Sob consulta' : currencyFormatter.format(item.unitPrice);
+    page.text(cellAnchor(5), baseline, unitPrice, { size: 8, color, align: 'right' });
+    page.text(cellAnchor(6), baseline, item.quoted ? currencyFormatter.format(item.total) : '—', { size: 8, font: 'bold', color, align: 'right' });
+    y += height;
+    page.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y, '#E2E8F0');
+  });
+
+  // Totals
+  const grandTotal = items.reduce((sum, item) => sum + item.total, 0);
+  const unquoted = items.filter(item => !item.quoted).length;
+  ensureSpace(unquoted > 0 ? 46 : 34, false);
+  y += 20;
+  page.text(MARGIN + CONTENT_WIDTH - 110, y, 'TOTAL GERAL', { size: 9, font: 'bold', color: MUTED, align: 'right' });
+  page.text(MARGIN + CONTENT_WIDTH, y, currencyFormatter.format(grandTotal), { size: 12, font: 'bold', color: BRAND, align: 'right' });
+  if (unquoted > 0) {
+    y += 12;
+    page.text(MARGIN + CONTENT_WIDTH, y, `${unquoted} ${unquoted === 1 ? 'item não cotado' : 'itens não cotados'}`, { size: 7.5, color: MUTED, align: 'right' });
+  }
+
+  // Notes, continued on new pages line by line
+  const noteLines = info.notes.trim() ? wrapText(info.notes.trim(), CONTENT_WIDTH, 8.5) : [];
+  if (noteLines.length > 0) {
+    ensureSpace(36, false);
+    y += 24;
+    page.text(MARGIN, y, 'OBSERVAÇÕES', { size: 7, font: 'bold', color: LIGHT });
+    noteLines.forEach(line => {
+      ensureSpace(11, false);
+      y += 11;
+      page.text(MARGIN, y, line, { size: 8.5, color: TEXT });
+    });
+  }
+
+  // Footers, now that the page count is known
+  const total = doc.pageCount();
+  for (let i = 0; i < total; i++) {
+    const footer = doc.page(i);
+    footer.line(MARGIN, FOOTER_TOP, MARGIN + CONTENT_WIDTH, FOOTER_TOP);
+    footer.text(MARGIN, FOOTER_TOP + 12, `${settings.companyName} • Proposta nº ${info.number} • Emitida em ${dateLabel(info.issuedAt)}`, { size: 7, color: LIGHT });
+    footer.text(MARGIN + CONTENT_WIDTH, FOOTER_TOP + 12, `Página ${i + 1} de ${total}`, { size: 7, color: LIGHT, align: 'right' });
+  }
+
+  return doc.toBlob();
+};
+
+export const downloadQuotationPdf = async (
+  results: BulkSearchResult[],
+  selections: QuotationMap,
+  info: QuotationDocumentInfo,
+  settings: QuotationDocumentSettings
+) => {
+  const logo = await loadLogoJpeg();
+  const blob = generateQuotationPdf(buildDocumentItems(results, selections), info, settings, logo);
+  downloadBlob(blob, `proposta_${slugify(info.number)}.pdf`);
+};
@@ -0,0 +1,144 @@
+import { BulkSearchResult, QuotationMap } from '../types';
+import { openDatabase, runTransaction } from './indexedDb';
+
+// Everything needed to put a quotation back on screen exactly as it was saved
+export interface QuotationSnapshot {
+  queryInput: string;
+  results: BulkSearchResult[];   // Lines still in the quote; removed lines are simply absent
+  selections: QuotationMap;
+  supplierFilter: string;
+  sourceFilter: string;
+}
+
+export interface SavedQuotation {
+  id: string;
+  name: string;
+  customer: string;
+  createdAt: number;
+  updatedAt: number;
+  latestVersion: number;
+  lineCount: number;
+  total: number;
+}
+
+export interface QuotationVersion {
+  quoteId: string;
+  version: number;
+  savedAt: number;
+  total: number;
+  snapshot: QuotationSnapshot;
+}
+
+const DB_NAME = 'atec-quotations';
+const DB_VERSION = 1;
+const QUOTES = 'quotations';
+const VERSIONS = 'versions';
+
+// Alternatives kept per line; selected products are always kept
+const MAX_SAVED_ALTERNATIVES = 30;
+
+const openDb = () => openDatabase(DB_NAME, DB_VERSION, db => {
+  db.createObjectStore(QUOTES, { keyPath: 'id' });
+  const versions = db.createObjectStore(VERSIONS, { keyPath: ['quoteId', 'version'] });
+  versions.createIndex('quoteId', 'quoteId');
+});
+
+const createQuoteId = (): string => `quote-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+// Keeps saved versions small: top alternatives only and no raw CSV columns
+const compactSnapshot = (snapshot: QuotationSnapshot): QuotationSnapshot => ({
+  ...snapshot,
+  results: snapshot.results.map((result, idx) => {
+    const selected = snapshot.selections[idx] || {};
+    return {
+      ...result,
+      products: result.products
+        .filter((p, i) => i < MAX_SAVED_ALTERNATIVES || selected[p.id] !== undefined || p.id === result.learnedProductId)
+        .map(p => ({ ...p, _raw: {} })),
+    };
+  }),
+});
+
+const putVersion = (quote: SavedQuotation, snapshot: QuotationSnapshot) =>
+  runTransaction(openDb, [QUOTES, VERSIONS], 'readwrite', tx => {
+    const version: QuotationVersion = {
+      quoteId: quote.id,
+      version: quote.latestVersion,
+      savedAt: quote.updatedAt,
+      total: quote.total,
+      snapshot: compactSnapshot(snapshot),
+    };
+    tx.objectStore(VERSIONS).put(version);
+    tx.objectStore(QUOTES).put(quote);
+  });
+
+export const listQuotations = async (): Promise<SavedQuotation[]> => {
+  const quotes = (await runTransaction<SavedQuotation[]>(openDb, QUOTES, 'readonly', tx => tx.objectStore(QUOTES).getAll())) || [];
+  return quotes.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const createQuotation = async (name: string, customer: string, snapshot: QuotationSnapshot, total: number): Promise<SavedQuotation> => {
+  const now = Date.now();
+  const quote: SavedQuotation = {
+    id: createQuoteId(),
+    name,
+    customer,
+    createdAt: now,
+    updatedAt: now,
+    latestVersion: 1,
+    lineCount: snapshot.results.length,
+    total,
+  };
+  await putVersion(quote, snapshot);
+  return quote;
+};
+
+// Every save is a new version; earlier ones stay available to reopen
+export const saveQuotationVersion = async (quote: SavedQuotation, snapshot: QuotationSnapshot, total: number): Promise<SavedQuotation> => {
+  const next: SavedQuotation = {
+    ...quote,
+    updatedAt: Date.now(),
+    latestVersion: quote.latestVersion + 1,
+    lineCount: snapshot.results.length,
+    total,
+  };
+  await putVersion(next, snapshot);
+  return next;
+};
+
+export const listVersions = async (quoteId: string): Promise<QuotationVersion[]> => {
+  const versions = (await runTransaction<QuotationVersion[]>(openDb, VERSIONS, 'readonly', tx =>
+    tx.objectStore(VERSIONS).index('quoteId').getAll(quoteId)
+  )) || [];
+  return versions.sort((a, b) => b.version - a.version);
+};
+
+export const loadVersion = (quoteId: string, version: number): Promise<QuotationVersion | undefined> =>
+  runTransaction<QuotationVersion>(openDb, VERSIONS, 'readonly', tx => tx.objectStore(VERSIONS).get([quoteId, version]));
+
+export const renameQuotation = async (quote: SavedQuotation, name: string, customer: string): Promise<SavedQuotation> => {
+  const next = { ...quote, name, customer };
+  await runTransaction(openDb, QUOTES, 'readwrite', tx => {
+    tx.objectStore(QUOTES).put(next);
+  });
+  return next;
+};
+
+// Starts a new quotation from the latest version of an existing one
+export const duplicateQuotation = async (quote: SavedQuotation): Promise<SavedQuotation | null> => {
+  const latest = await loadVersion(quote.id, quote.latestVersion);
+  if (!latest) return null;
+  return createQuotation(`Cópia de ${quote.name}`, quote.customer, latest.snapshot, latest.total);
+};
+
+export const deleteQuotation = (quoteId: string) =>
+  runTransaction(openDb, [QUOTES, VERSIONS], 'readwrite', tx => {
+    tx.objectStore(QUOTES).delete(quoteId);
+    const cursorRequest = tx.objectStore(VERSIONS).index('quoteId').openKeyCursor(IDBKeyRange.only(quoteId));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      tx.objectStore(VERSIONS).delete(cursor.primaryKey);
+      cursor.continue();
+    };
+  });
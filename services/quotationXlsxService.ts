@@ -0,0 +1,111 @@
+import { BulkSearchResult, QuotationMap } from '../types';
+import { LINE_STATUS_LABELS, getLineAllocations, getLineStatus } from './quotationLineService';
+import { XlsxSheet, XlsxValue, cellRef, createXlsx } from './xlsxWriter';
+import { downloadBlob } from './fileExport';
+
+// Alternatives listed per requested line
+const ALTERNATIVES_PER_LINE = 5;
+
+const QUANTITY_COLUMN = 6;
+const UNIT_PRICE_COLUMN = 7;
+const TOTAL_COLUMN = 8;
+
+/**
+ * One row per chosen product. Totals are `quantity * unit price` formulas and
+ * the grand total sums them, so the customer can change quantities or fill
+ * in prices for unmatched lines and the sheet recalculates.
+ */
+const quotationSheet = (results: BulkSearchResult[], selections: QuotationMap): XlsxSheet => {
+  const header = ['Item Solicitado', 'Código', 'Produto Encontrado', 'Fornecedor', 'Fonte', 'Unidade', 'Quantidade', 'Preço Unitário', 'Preço Total', 'Status'];
+  const rows: XlsxValue[][] = [header.map(label => ({ value: label, style: 'header' }))];
+
+  const lineRow = (values: XlsxValue[], quantity: number, unitPrice: number | null): XlsxValue[] => {
+    const r = rows.length;
+    const cells = [...values];
+    cells[QUANTITY_COLUMN] = { value: quantity, style: 'integer' };
+    cells[UNIT_PRICE_COLUMN] = { value: unitPrice, style: 'currency' };
+    cells[TOTAL_COLUMN] = {
+      formula: `${cellRef(QUANTITY_COLUMN, r)}*${cellRef(UNIT_PRICE_COLUMN, r)}`,
+      value: quantity * (unitPrice || 0),
+      style: 'currency',
+    };
+    return cells;
+  };
+
+  let grandTotal = 0;
+  results.forEach((result, idx) => {
+    const allocations = getLineAllocations(result, selections[idx]);
+    const status = LINE_STATUS_LABELS[getLineStatus(result, allocations)];
+    if (allocations.length === 0) {
+      rows.push(lineRow([result.term, '', '', '', '', '', null, null, null, status], result.detectedQuantity, null));
+      return;
+    }
+    allocations.forEach(({ product: p, quantity }) => {
+      grandTotal += (p.price || 0) * quantity;
+      rows.push(lineRow([result.term, p.code, p.title, p.supplier, p.sourceName, p.unit, null, null, null, status], quantity, p.price));
+    });
+  });
+
+  const lastRow = rows.length - 1;
+  const totalRow: XlsxValue[] = [];
+  totalRow[UNIT_PRICE_COLUMN] = { value: 'TOTAL', style: 'bold' };
+  totalRow[TOTAL_COLUMN] = {
+    formula: lastRow >= 1 ? `SUM(${cellRef(TOTAL_COLUMN, 1)}:${cellRef(TOTAL_COLUMN, lastRow)})` : '0',
+    value: grandTotal,
+    style: 'currencyBold',
+  };
+  rows.push(totalRow);
+
+  return { name: 'Cotação', rows, columnWidths: [36, 14, 48, 22, 18, 10, 12, 16, 16, 20], freezeHeader: true };
+};
+
+// Requested lines the quotation does not cover, with the closest candidate found
+const notFoundSheet = (results: BulkSearchResult[], selections: QuotationMap): XlsxSheet => {
+  const header = ['Item Solicitado', 'Quantidade', 'Candidato Mais Próximo', 'Fornecedor', 'Pontuação'];
+  const rows: XlsxValue[][] = [header.map(label => ({ value: label, style: 'header' }))];
+  results.forEach((result, idx) => {
+    if (getLineAllocations(result, selections[idx]).length > 0) return;
+    const best = result.products[0];
+    rows.push([
+      result.term,
+      { value: result.detectedQuantity, style: 'integer' },
+      best ? best.title : '',
+      best ? best.supplier : '',
+      best ? { value: Math.round(best.matchScore || 0), style: 'integer' } : null,
+    ]);
+  });
+  return { name: 'Não encontrados', rows, columnWidths: [36, 12, 48, 22, 12], freezeHeader: true };
+};
+
+const alternativesSheet = (results: BulkSearchResult[], selections: QuotationMap): XlsxSheet => {
+  const header = ['Item Solicitado', 'Posição', 'Código', 'Produto', 'Fornecedor', 'Fonte', 'Unidade', 'Preço Unitário', 'Pontuação', 'Selecionado'];
+  const rows: XlsxValue[][] = [header.map(label => ({ value: label, style: 'header' }))];
+  results.forEach((result, idx) => {
+    const chosen = new Set(getLineAllocations(result, selections[idx]).map(a => a.product.id));
+    result.products.slice(0, ALTERNATIVES_PER_LINE).forEach((p, rank) => {
+      rows.push([
+        result.term,
+        { value: rank + 1, style: 'integer' },
+        p.code,
+        p.title,
+        p.supplier,
+        p.sourceName,
+        p.unit,
+        { value: p.price, style: 'currency' },
+        { value: Math.round(p.matchScore || 0), style: 'integer' },
+        chosen.has(p.id) ? 'Sim' : '',
+      ]);
+    });
+  });
+  return { name: 'Alternativas', rows, columnWidths: [36, 9, 14, 48, 22, 18, 10, 16, 11, 12], freezeHeader: true };
+};
+
+export const buildQuotationWorkbook = (results: BulkSearchResult[], selections: QuotationMap): XlsxSheet[] => [
+  quotationSheet(results, selections),
+  notFoundSheet(results, selections),
+  alternativesSheet(results, selections),
+];
+
+export const downloadQuotationXlsx = (results: BulkSearchResult[], selections: QuotationMap, filename: string) => {
+  downloadBlob(createXlsx(buildQuotationWorkbook(results, selections)), filename);
+};
@@ -0,0 +1,146 @@
+import { ExtractedItem } from '../types';
+import { parseCsv } from './csvParser';
+import { parseLocaleNumber } from './csvService';
+import { readXlsx } from './xlsxReader';
+
+export interface ImportedSheet {
+  name: string;
+  rows: string[][];
+}
+
+export interface ImportedFile {
+  fileName: string;
+  sheets: ImportedSheet[];
+}
+
+// Column choices for one sheet; indexes are 0-based
+export interface RequestColumns {
+  headerRow: number | null;    // Rows up to and including this one are not items
+  description: number;
+  quantity: number | null;     // null: every item gets quantity 1
+}
+
+export const REQUEST_FILE_ACCEPT = '.csv,.tsv,.txt,.xlsx';
+
+const DESCRIPTION_KEYWORDS = ['descricao', 'produto', 'material', 'especificacao', 'item', 'nome'];
+const QUANTITY_KEYWORDS = ['quantidade', 'qtde', 'qtd', 'quant', 'qde', 'qt'];
+
+// Header rows are looked for only near the top of the sheet
+const HEADER_SCAN_ROWS = 20;
+
+const extensionOf = (fileName: string) => fileName.toLowerCase().split('.').pop() || '';
+
+export const isSupportedRequestFile = (fileName: string) => ['csv', 'tsv', 'txt', 'xlsx'].includes(extensionOf(fileName));
+
+// Files saved by Excel in Brazil are often Windows-1252 rather than UTF-8
+const decodeText = (buffer: ArrayBuffer): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+};
+
+export const readRequestFile = async (file: File): Promise<ImportedFile> => {
+  const buffer = await file.arrayBuffer();
+  const extension = extensionOf(file.name);
+  if (extension === 'xlsx') {
+    const sheets = await readXlsx(buffer);
+    return { fileName: file.name, sheets: sheets.filter(s => s.rows.some(r => r.some(Boolean))) };
+  }
+
+  const text = decodeText(buffer);
+  let rows: string[][];
+  if (extension === 'csv') rows = parseCsv(text, undefined, true).rows;
+  else if (text.includes('\t')) rows = parseCsv(text, '\t', true).rows;
+  else rows = text.split(/\r?\n/).map(line => [line.trim()]).filter(r => r[0]);
+  return { fileName: file.name, sheets: [{ name: file.name, rows }] };
+};
+
+const normalizeHeader = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+const findKeywordColumn = (row: string[], keywords: string[], exclude?: number): number => {
+  const cells = row.map(normalizeHeader);
+  for (const keyword of keywords) {
+    const index = cells.findIndex((cell, i) => i !== exclude && (cell === keyword || cell.startsWith(keyword)));
+    if (index !== -1) return index;
+  }
+  return -1;
+};
+
+const isQuantity = (value: string) => {
+  const n = parseLocaleNumber(value);
+  return n !== null && n > 0 && /^[\d\s.,]+[a-zA-Z]{0,3}\.?$/.test(value.trim());
+};
+
+/**
+ * Guesses the header row and the description and quantity columns. The
+ * header is the first row near the top naming a description column; without
+ * one, the description is the column with the longest text and the quantity
+ * the first mostly numeric column that is not a 1, 2, 3... item counter.
+ */
+export const guessRequestColumns = (rows: string[][]): RequestColumns => {
+  let headerRow: number | null = null;
+  let description = -1;
+  let quantity = -1;
+  for (let r = 0; r < Math.min(rows.length, HEADER_SCAN_ROWS); r++) {
+    description = findKeywordColumn(rows[r], DESCRIPTION_KEYWORDS);
+    if (description !== -1) {
+      headerRow = r;
+      quantity = findKeywordColumn(rows[r], QUANTITY_KEYWORDS, description);
+      break;
+    }
+  }
+
+  const data = rows.slice(headerRow === null ? 0 : headerRow + 1).filter(r => r.some(Boolean));
+  const width = Math.max(0, ...data.map(r => r.length));
+  const column = (c: number) => data.map(r => r[c] || '').filter(Boolean);
+
+  if (description === -1) {
+    let best = 0;
+    for (let c = 0; c < width; c++) {
+      const texts = column(c).filter(v => !isQuantity(v));
+      const score = texts.reduce((sum, v) => sum + v.length, 0);
+      if (score > best) {
+        best = score;
+        description = c;
+      }
+    }
+    if (description === -1) description = 0;
+  }
+
+  if (quantity === -1) {
+    for (let c = 0; c < width; c++) {
+      if (c === description) continue;
+      const values = column(c);
+      if (values.length === 0 || values.filter(isQuantity).length < values.length * 0.8) continue;
+      const isCounter = values.every((v, i) => parseLocaleNumber(v) === i + 1);
+      if (!isCounter) {
+        quantity = c;
+        break;
+      }
+    }
+  }
+
+  return { headerRow, description, quantity: quantity === -1 ? null : quantity };
+};
+
+// Rows that become items: after the header and with a description
+export const requestDataRows = (rows: string[][], columns: RequestColumns): { row: string[]; line: number }[] =>
+  rows
+    .map((row, i) => ({ row, line: i + 1 }))
+    .filter(({ row, line }) => (columns.headerRow === null || line - 1 > columns.headerRow) && (row[columns.description] || '').trim());
+
+/**
+ * Builds the item list straight from the chosen columns, so no AI extraction
+ * is needed. Missing or unreadable quantities become 1.
+ */
+export const buildRequestItems = (rows: string[][], columns: RequestColumns): ExtractedItem[] =>
+  requestDataRows(rows, columns).map(({ row }) => {
+    const quantity = columns.quantity === null ? null : parseLocaleNumber(row[columns.quantity] || '');
+    return {
+      name: row[columns.description].trim().replace(/\s+/g, ' '),
+      quantity: quantity !== null && quantity > 0 ? Math.max(1, Math.round(quantity)) : 1,
+      source: 'file',
+    };
+  });
@@ -0,0 +1,132 @@
+import { CatalogSource, MappedProduct } from '../types';
+import { parseCsv } from './csvParser';
+import { mapProducts } from './csvService';
+import { parseItemText } from './listParser';
+import { createSearchIndex } from './searchService';
+import { ScoringProfile } from './scoringProfile';
+import { Lexicon } from './thesaurusService';
+
+/**
+ * Gold dataset: a CSV with one requested line per row and the code of the
+ * product it should resolve to, e.g.
+ *
+ *   solicitado;codigo;fornecedor
+ *   10 pinça anatômica 14cm;PA-14;Cirúrgica Brasil
+ *
+ * The supplier column is optional; without it any product with that code
+ * counts as a hit. Quantities in the line are stripped the same way a pasted
+ * list is, so the matcher sees exactly what it would in a quotation.
+ */
+export interface GoldCase {
+  line: number;           // Row in the gold file, for reporting
+  request: string;        // Line as written in the request
+  expectedCode: string;
+  expectedSupplier?: string;
+}
+
+export interface GoldDataset {
+  cases: GoldCase[];
+  skipped: number;        // Rows without a request or without a code
+}
+
+export interface CaseResult {
+  gold: GoldCase;
+  term: string;           // What was searched, quantity removed
+  rank: number | null;    // 1-based position of the expected product; null when it wasn't listed
+  topCode?: string;
+  topScore?: number;
+  inCatalog: boolean;     // The expected code exists in the catalog at all
+}
+
+export interface EvaluationReport {
+  cases: CaseResult[];
+  evaluated: number;      // Cases whose expected product is in the catalog
+  top1Accuracy: number;   // Share ranked first
+  recallAt5: number;      // Share ranked in the first five
+  notFoundRate: number;   // Share whose best candidate isn't scored high enough to be picked automatically
+}
+
+const REQUEST_HEADERS = ['solicitado', 'pedido', 'item', 'linha', 'request', 'produto'];
+const CODE_HEADERS = ['codigo', 'code', 'esperado', 'expected', 'ref'];
+const SUPPLIER_HEADERS = ['fornecedor', 'supplier'];
+
+const RECALL_DEPTH = 5;
+
+const normalizeHeader = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+const sameCode = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const findColumn = (headers: string[], keywords: string[]) => {
+  const cells = headers.map(normalizeHeader);
+  for (const keyword of keywords) {
+    const index = cells.findIndex(cell => cell === keyword || cell.startsWith(keyword));
+    if (index !== -1) return index;
+  }
+  return -1;
+};
+
+export const parseGoldDataset = (text: string): GoldDataset => {
+  const { headers, rows, rowLines } = parseCsv(text);
+  const requestColumn = findColumn(headers, REQUEST_HEADERS);
+  const codeColumn = findColumn(headers, CODE_HEADERS);
+  if (requestColumn === -1 || codeColumn === -1 || requestColumn === codeColumn) {
+    throw new Error("Gold dataset needs a requested-line column and an expected-code column");
+  }
+  const supplierColumn = findColumn(headers, SUPPLIER_HEADERS);
+
+  const cases: GoldCase[] = [];
+  let skipped = 0;
+  rows.forEach((row, i) => {
+    const request = (row[requestColumn] || '').trim();
+    const expectedCode = (row[codeColumn] || '').trim();
+    if (!request || !expectedCode) {
+      skipped++;
+      return;
+    }
+    const expectedSupplier = supplierColumn !== -1 ? (row[supplierColumn] || '').trim() || undefined : undefined;
+    cases.push({ line: rowLines[i], request, expectedCode, expectedSupplier });
+  });
+  return { cases, skipped };
+};
+
+// A catalog CSV read from disk, mapped the same way a local file source is
+export const parseCatalogCsv = (text: string, fileName: string): MappedProduct[] => {
+  const source: CatalogSource = { id: 'eval', name: fileName, kind: 'file', location: fileName, enabled: true };
+  return mapProducts(parseCsv(text), source);
+};
+
+const isExpected = (gold: GoldCase, product: MappedProduct) =>
+  sameCode(product.code, gold.expectedCode) && (!gold.expectedSupplier || product.supplier === gold.expectedSupplier);
+
+/**
+ * Runs every gold case through the search index with the given profile.
+ * Cases whose product isn't in the catalog are listed but left out of the
+ * rates, since no weight could ever find them.
+ */
+export const evaluateProfile = (cases: GoldCase[], products: MappedProduct[], profile: ScoringProfile, lexicon: Lexicon): EvaluationReport => {
+  const index = createSearchIndex(products);
+
+  const results = cases.map((gold): CaseResult => {
+    const term = parseItemText(gold.request).name;
+    const found = index.search(term, { minScore: profile.minScore, lexicon, profile });
+    const position = found.findIndex(p => isExpected(gold, p));
+    return {
+      gold,
+      term,
+      rank: position === -1 ? null : position + 1,
+      topCode: found[0]?.code,
+      topScore: found[0]?.matchScore,
+      inCatalog: products.some(p => isExpected(gold, p)),
+    };
+  });
+
+  const evaluated = results.filter(r => r.inCatalog);
+  const rate = (count: number) => (evaluated.length > 0 ? count / evaluated.length : 0);
+  return {
+    cases: results,
+    evaluated: evaluated.length,
+    top1Accuracy: rate(evaluated.filter(r => r.rank === 1).length),
+    recallAt5: rate(evaluated.filter(r => r.rank !== null && r.rank <= RECALL_DEPTH).length),
+    notFoundRate: rate(evaluated.filter(r => r.topScore === undefined || r.topScore < profile.autoSelectScore).length),
+  };
+};
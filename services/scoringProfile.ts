@@ -0,0 +1,99 @@
+import type { TokenClass } from './matchScorer';
+
+// Every number that decides how a requested line is ranked and which
+// product is picked for it. The defaults are the values the matcher was
+// tuned with; a saved profile overrides them in the browser.
+export interface ScoringProfile {
+  minScore: number;           // Candidates below this are not listed for a line
+  autoSelectScore: number;    // Best match at or above this is picked automatically
+  perfectMatchBonus: number;  // Every important word of the request is in the title
+  anchorFirstBonus: number;   // Title starts with the first query word
+  anchorNearBonus: number;    // First query word elsewhere in the title
+  accessoryPenalty: number;   // "Cabo para..." when the query didn't ask for one
+  measureBonus: number;       // Per requested size the title confirms ("14cm" and "140 mm")
+  measurePenalty: number;     // Per requested size the title contradicts ("14cm" vs "16cm")
+  measureTolerance: number;   // Percent two lengths may differ and still match
+  weights: Record<TokenClass, number>;
+}
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  minScore: 2500,
+  autoSelectScore: 3000,
+  perfectMatchBonus: 6000,
+  anchorFirstBonus: 2000,
+  anchorNearBonus: 1000,
+  accessoryPenalty: 3000,
+  measureBonus: 1500,
+  measurePenalty: 4000,
+  measureTolerance: 3,
+  weights: {
+    stopword: 50,    // Minimal weight for connectors/units
+    modifier: 500,   // Modifiers
+    category: 2500,  // Significant weight for Product Type (e.g., "Clips")
+    number: 500,     // Medium weight for numbers
+    specific: 4500,  // High weight for Specific Names (e.g. "Volkmann", "Mayo")
+  },
+};
+
+export const TOKEN_CLASS_LABELS: Record<TokenClass, string> = {
+  specific: 'Nome específico',
+  category: 'Tipo de produto',
+  modifier: 'Modificador',
+  number: 'Número',
+  stopword: 'Conector/unidade',
+};
+
+export type ScoringSetting = Exclude<keyof ScoringProfile, 'weights'>;
+
+export const SCORING_SETTING_LABELS: Record<ScoringSetting, string> = {
+  minScore: 'Pontuação mínima do candidato',
+  autoSelectScore: 'Seleção automática a partir de',
+  perfectMatchBonus: 'Bônus: todas as palavras importantes',
+  anchorFirstBonus: 'Bônus: título começa com a 1ª palavra',
+  anchorNearBonus: 'Bônus: 1ª palavra em outra posição',
+  accessoryPenalty: 'Penalidade: acessório não pedido',
+  measureBonus: 'Bônus: medida confere',
+  measurePenalty: 'Penalidade: medida diferente',
+  measureTolerance: 'Tolerância de medida (%)',
+};
+
+const STORAGE_KEY = 'atec.scoringProfile.v1';
+
+const isScore = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// Keeps the known numbers of a stored profile; anything missing or invalid falls back to the default
+export const parseScoringProfile = (raw: unknown): ScoringProfile => {
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const rawWeights = (data.weights && typeof data.weights === 'object' ? data.weights : {}) as Record<string, unknown>;
+
+  const profile: ScoringProfile = { ...DEFAULT_SCORING_PROFILE, weights: { ...DEFAULT_SCORING_PROFILE.weights } };
+  (Object.keys(SCORING_SETTING_LABELS) as ScoringSetting[]).forEach(key => {
+    if (isScore(data[key])) profile[key] = data[key] as number;
+  });
+  (Object.keys(profile.weights) as TokenClass[]).forEach(tokenClass => {
+    if (isScore(rawWeights[tokenClass])) profile.weights[tokenClass] = rawWeights[tokenClass] as number;
+  });
+  return profile;
+};
+
+export const isDefaultScoringProfile = (profile: ScoringProfile) =>
+  (Object.keys(SCORING_SETTING_LABELS) as ScoringSetting[]).every(key => profile[key] === DEFAULT_SCORING_PROFILE[key]) &&
+  (Object.keys(profile.weights) as TokenClass[]).every(c => profile.weights[c] === DEFAULT_SCORING_PROFILE.weights[c]);
+
+export const loadScoringProfile = (): ScoringProfile => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseScoringProfile(JSON.parse(stored)) : DEFAULT_SCORING_PROFILE;
+  } catch (error) {
+    console.error("Scoring profile load failed:", error);
+    return DEFAULT_SCORING_PROFILE;
+  }
+};
+
+export const saveScoringProfile = (profile: ScoringProfile) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+  } catch (error) {
+    console.error("Scoring profile save failed:", error);
+  }
+};
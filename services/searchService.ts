@@ -0,0 +1,185 @@
+import { MappedProduct } from '../types';
+import {
+  PreparedProduct,
+  PreparedQuery,
+  prepareProduct,
+  prepareQuery,
+  scorePrepared,
+} from './matchScorer';
+import { DEFAULT_LEXICON, Lexicon } from './thesaurusService';
+import { DEFAULT_SCORING_PROFILE, ScoringProfile } from './scoringProfile';
+
+export interface SearchOptions {
+  minScore?: number; // Products scoring below this are dropped
+  limit?: number;    // Maximum number of products returned
+  lexicon?: Lexicon; // Synonyms and word classes; defaults to the built-in dictionary
+  profile?: ScoringProfile; // Weights and bonuses the products are scored with
+}
+
+export interface SearchIndex {
+  products: MappedProduct[];
+  search: (query: string, options?: SearchOptions) => MappedProduct[];
+  findProduct: (code: string, supplier: string) => MappedProduct | undefined;
+}
+
+export const DEFAULT_SEARCH_OPTIONS: Required<SearchOptions> = {
+  minScore: DEFAULT_SCORING_PROFILE.minScore,
+  limit: 500,
+  lexicon: DEFAULT_LEXICON,
+  profile: DEFAULT_SCORING_PROFILE,
+};
+
+const bigramsOf = (token: string): string[] => {
+  const grams: string[] = [];
+  for (let i = 0; i < token.length - 1; i++) grams.push(token.slice(i, i + 2));
+  return grams;
+};
+
+const addPosting = <T>(map: Map<string, T[]>, key: string, value: T) => {
+  const list = map.get(key);
+  if (!list) map.set(key, [value]);
+  else if (list[list.length - 1] !== value) list.push(value);
+};
+
+/**
+ * Builds an inverted index over product titles so a query only scores the
+ * products that can actually reach a positive score, instead of the whole
+ * catalog.
+ *
+ * - `tokenPostings` maps every title token to the products containing it
+ *   (exact and synonym matches, anchor bias).
+ * - `bigramPostings` maps character bigrams to title tokens, used to find
+ *   prefix and Levenshtein candidates and the substrings checked by the
+ *   "perfect match" bonus.
+ *
+ * Every product that can score above zero shares at least one of those
+ * postings with the query, so results are identical to scoring the full
+ * catalog with `calculateMatchScore`.
+ */
+export const createSearchIndex = (products: MappedProduct[]): SearchIndex => {
+  const entries: PreparedProduct[] = products.map(prepareProduct);
+  const tokenPostings = new Map<string, number[]>();
+  const bigramPostings = new Map<string, string[]>();
+
+  entries.forEach((entry, index) => {
+    entry.tokens.forEach(token => addPosting(tokenPostings, token, index));
+  });
+
+  const byCodeAndSupplier = new Map<string, MappedProduct>();
+  products.forEach(product => {
+    const key = `${product.code}|${product.supplier}`;
+    if (!byCodeAndSupplier.has(key)) byCodeAndSupplier.set(key, product);
+  });
+
+  const vocabulary = Array.from(tokenPostings.keys());
+  vocabulary.forEach(token => {
+    new Set(bigramsOf(token)).forEach(gram => addPosting(bigramPostings, gram, token));
+  });
+
+  // Caches shared across queries; both only depend on the catalog.
+  const similarTokensCache = new Map<string, string[]>();
+  const substringCache = new Map<string, number[]>();
+
+  const allIndexes = (): number[] => entries.map((_, i) => i);
+
+  // Title tokens sharing at least one bigram with `qToken`. A prefix match or
+  // a Levenshtein distance of 1 (2 for tokens over 6 chars) always leaves one
+  // bigram of a 4+ char token intact, so this is a superset of fuzzy matches.
+  const similarTokens = (qToken: string): string[] => {
+    const cached = similarTokensCache.get(qToken);
+    if (cached) return cached;
+    const found = new Set<string>();
+    bigramsOf(qToken).forEach(gram => {
+      bigramPostings.get(gram)?.forEach(token => found.add(token));
+    });
+    const result = Array.from(found);
+    similarTokensCache.set(qToken, result);
+    return result;
+  };
+
+  // Products whose normalized title contains `fragment` as a substring
+  const productsContaining = (fragment: string): number[] => {
+    const cached = substringCache.get(fragment);
+    if (cached) return cached;
+
+    let result: number[];
+    if (fragment.includes(' ')) {
+      result = allIndexes().filter(i => entries[i].normalizedTitle.includes(fragment));
+    } else {
+      let tokens: string[];
+      if (fragment.length < 2) {
+        tokens = vocabulary;
+      } else {
+        const grams = bigramsOf(fragment);
+        tokens = bigramPostings.get(grams[0]) || [];
+        for (let g = 1; g < grams.length && tokens.length > 0; g++) {
+          const withGram = new Set(bigramPostings.get(grams[g]) || []);
+          tokens = tokens.filter(t => withGram.has(t));
+        }
+      }
+      const found = new Set<number>();
+      tokens
+        .filter(t => t.includes(fragment))
+        .forEach(t => tokenPostings.get(t)?.forEach(i => found.add(i)));
+      result = Array.from(found);
+    }
+    substringCache.set(fragment, result);
+    return result;
+  };
+
+  const collectCandidates = (query: PreparedQuery, minScore: number): number[] => {
+    // A zero threshold admits products that match nothing at all
+    if (minScore <= 0) return allIndexes();
+
+    const candidates = new Set<number>();
+
+    // Exact, synonym, prefix and fuzzy token matches (also covers the anchor)
+    query.tokens.forEach((qToken, i) => {
+      query.synonyms[i].forEach(syn => {
+        tokenPostings.get(syn)?.forEach(index => candidates.add(index));
+      });
+      if (query.classes[i] !== 'stopword' && qToken.length > 3) {
+        similarTokens(qToken).forEach(token => {
+          tokenPostings.get(token)?.forEach(index => candidates.add(index));
+        });
+      }
+    });
+
+    // Products eligible for the "perfect match" bonus contain every important token
+    const importantIndexes = query.important
+      .map((important, i) => (important ? i : -1))
+      .filter(i => i >= 0);
+
+    if (importantIndexes.length === 0) return allIndexes();
+
+    let bonusCandidates: Set<number> | null = null;
+    for (const i of importantIndexes) {
+      const containing = new Set<number>();
+      query.synonyms[i].forEach(syn => productsContaining(syn).forEach(index => containing.add(index)));
+      bonusCandidates = bonusCandidates
+        ? new Set(Array.from(bonusCandidates).filter(index => containing.has(index)))
+        : containing;
+      if (bonusCandidates.size === 0) break;
+    }
+    bonusCandidates?.forEach(index => candidates.add(index));
+
+    // Keep catalog order so ties rank exactly as a full scan would
+    return Array.from(candidates).sort((a, b) => a - b);
+  };
+
+  const search = (query: string, options: SearchOptions = {}): MappedProduct[] => {
+    const { minScore, limit, lexicon, profile } = { ...DEFAULT_SEARCH_OPTIONS, ...options };
+    const prepared = prepareQuery(query, lexicon, profile);
+    if (prepared.tokens.length === 0 && minScore > 0) return [];
+
+    return collectCandidates(prepared, minScore)
+      .map(index => ({ ...products[index], matchScore: scorePrepared(prepared, entries[index]) }))
+      .filter(p => (p.matchScore || 0) >= minScore)
+      .sort((a, b) => (b.matchScore || 0) - (a.matchScore || 0))
+      .slice(0, limit);
+  };
+
+  const findProduct = (code: string, supplier: string) => byCodeAndSupplier.get(`${code}|${supplier}`);
+
+  return { products, search, findProduct };
+};
@@ -0,0 +1,204 @@
+import { normalizeText } from './matchScorer';
+
+export type WordClass = 'stop' | 'category' | 'modifier' | 'specific';
+
+// User changes layered over the built-in dictionary. This is what gets
+// persisted and exported; the defaults always come from the code.
+export interface ThesaurusOverrides {
+  synonyms: Record<string, string[]>;     // canonical term -> extra variants
+  abbreviations: Record<string, string>;  // "p agulha" -> "porta agulha"
+  wordClasses: Record<string, WordClass>; // word -> class it was moved to
+}
+
+// Everything the scorer needs to weight and expand query tokens
+export interface Lexicon {
+  synonyms: Record<string, string[]>; // canonical term or user-added variant -> its synonym group
+  abbreviations: [string[], string[]][]; // tokenized phrase -> tokenized expansion
+  stopWords: Set<string>;
+  categoryTerms: Set<string>;
+  modifierTerms: Set<string>;
+}
+
+// Expanded Thesaurus for better synonym matching
+export const medicalThesaurus: Record<string, string[]> = {
+  'afastador': ['afastador', 'afast', 'retractor', 'afast.'],
+  'pinca': ['pinca', 'pinça', 'forceps', 'clamp', 'pinca.', 'pinça.'],
+  'tesoura': ['tesoura', 'tes', 'scissors', 'tes.'],
+  'porta': ['porta', 'needle', 'holder', 'porta-agulha'],
+  'cabo': ['cabo', 'handle'],
+  'fio': ['fio', 'suture', 'wire'],
+  'volkmann': ['volkmann', 'volkman', 'wulkman', 'vulkman', 'vulkmann', 'wolkman', 'wolkmann'],
+  'kocher': ['kocher', 'kocker', 'cocher', 'cocker', 'kocher.'],
+  'senn': ['senn', 'sen', 'semm', 'sem'],
+  'mueller': ['mueller', 'muller', 'mulir', 'muler'],
+  'metzenbaum': ['metzenbaum', 'metz', 'metzebaum'],
+  'mayo': ['mayo', 'maio'],
+  'kelly': ['kelly', 'kely', 'keli'],
+  'clipe': ['clipe', 'clips', 'clip'],
+  'gancho': ['gancho', 'ganchos', 'garra', 'garras', 'dente', 'dentes'],
+  'mosquito': ['mosquito', 'halstead', 'halsted'],
+  'bisturi': ['bisturi', 'scalpel', 'lâmina', 'lamina'],
+  'adson': ['adson', 'adsson'],
+  'allis': ['allis', 'alis'],
+  'babcock': ['babcock', 'babcok'],
+  'backhaus': ['backhaus', 'backaus'],
+  'gelpi': ['gelpi', 'gelpy', 'golpi'],
+  'weitlaner': ['weitlaner', 'weitlaner', 'westphal'],
+  'mixter': ['mixter', 'mixture'],
+  'crile': ['crile', 'crille'],
+  'rochester': ['rochester'],
+  'pean': ['pean'],
+  'guthrie': ['guthrie', 'gunthrie', 'gutrie'],
+  'cizalha': ['cizalha', 'cisalha', 'alicate'],
+  'liston': ['liston', 'listom'],
+  'farabeuf': ['farabeuf', 'farabef', 'farabauf'],
+  'yankauer': ['yankauer', 'yankau', 'yancauer'],
+  'hartmann': ['hartmann', 'hartman'],
+  'bunt': ['bunt', 'bunti'],
+  'hegar': ['hegar', 'hegger'],
+};
+
+// Stop words - terms that add very little value to search
+export const STOP_WORDS = new Set([
+  'de', 'do', 'da', 'com', 'para', 'em', 'cm', 'mm', 'ml', 'unid', 'cx', 'pc', 'pç', 'jogo', 'kit', 'conjunto'
+]);
+
+// Category terms - important for type matching, but less specific than names like "Volkmann"
+export const CATEGORY_TERMS = new Set([
+  'afastador', 'pinca', 'pinça', 'tesoura', 'porta', 'cabo', 'fio', 'lamina', 'lâmina',
+  'bisturi', 'agulha', 'clip', 'clipe', 'clips', 'broca', 'raspador', 'elevador', 'descolador',
+  'valva', 'especulo', 'espéculo', 'aspirador', 'canula', 'cânula', 'cesta', 'caixa',
+  'cizalha', 'gancho', 'garra', 'dente', 'sonda', 'cateter', 'drill', 'perfurador', 'abre', 'boca'
+]);
+
+export const MODIFIER_TERMS = new Set([
+  'adulto', 'infantil', 'pediatrico', 'pediátrico', 'reto', 'reta', 'curvo', 'curva',
+  'longo', 'longa', 'curto', 'curta', 'flexivel', 'flexível', 'rigido', 'rígido',
+  'direito', 'esquerdo', 'direita', 'esquerda', 'maior', 'menor', 'médio', 'medio'
+]);
+
+export const EMPTY_OVERRIDES: ThesaurusOverrides = { synonyms: {}, abbreviations: {}, wordClasses: {} };
+
+const STORAGE_KEY = 'atec.thesaurus.v1';
+
+const unique = (values: string[]): string[] => Array.from(new Set(values));
+
+/**
+ * Merges user overrides over the built-in dictionary. A canonical term
+ * expands to its whole group. Built-in variants don't expand back, since many
+ * of them are everyday words ("sem", "tes", "dente") and the default ranking
+ * must stay as it was; variants the user adds do, so a buyer's own spelling
+ * ("wulkman") is searched the same way as "volkmann".
+ */
+export const buildLexicon = (overrides: ThesaurusOverrides = EMPTY_OVERRIDES): Lexicon => {
+  const groups: Record<string, string[]> = {};
+  Object.entries(medicalThesaurus).forEach(([canonical, variants]) => {
+    groups[canonical] = [...variants];
+  });
+  const userVariants: Record<string, string[]> = {};
+  Object.entries(overrides.synonyms).forEach(([term, variants]) => {
+    const canonical = normalizeText(term);
+    if (!canonical) return;
+    const added = variants.map(normalizeText).filter(Boolean);
+    groups[canonical] = unique([...(groups[canonical] || [canonical]), ...added]);
+    userVariants[canonical] = added;
+  });
+
+  const synonyms: Record<string, string[]> = {};
+  Object.entries(userVariants).forEach(([canonical, added]) => {
+    added.forEach(form => {
+      synonyms[form] = synonyms[form] ? unique([...synonyms[form], ...groups[canonical]]) : groups[canonical];
+    });
+  });
+  // A canonical term always expands to exactly its own group
+  Object.entries(groups).forEach(([canonical, variants]) => {
+    synonyms[canonical] = variants;
+  });
+
+  const stopWords = new Set(STOP_WORDS);
+  const categoryTerms = new Set(CATEGORY_TERMS);
+  const modifierTerms = new Set(MODIFIER_TERMS);
+  Object.entries(overrides.wordClasses).forEach(([term, wordClass]) => {
+    const word = normalizeText(term);
+    stopWords.delete(word);
+    categoryTerms.delete(word);
+    modifierTerms.delete(word);
+    if (wordClass === 'stop') stopWords.add(word);
+    else if (wordClass === 'category') categoryTerms.add(word);
+    else if (wordClass === 'modifier') modifierTerms.add(word);
+  });
+
+  const abbreviations = Object.entries(overrides.abbreviations)
+    .map(([from, to]): [string[], string[]] => [normalizeText(from).split(' '), normalizeText(to).split(' ')])
+    .filter(([from, to]) => from[0] !== '' && to[0] !== '')
+    // Longest phrases first so "p agulha" wins over a plain "p"
+    .sort((a, b) => b[0].length - a[0].length);
+
+  return { synonyms, abbreviations, stopWords, categoryTerms, modifierTerms };
+};
+
+export const DEFAULT_LEXICON: Lexicon = buildLexicon();
+
+export const getWordClass = (lexicon: Lexicon, word: string): WordClass => {
+  if (lexicon.stopWords.has(word)) return 'stop';
+  if (lexicon.categoryTerms.has(word)) return 'category';
+  if (lexicon.modifierTerms.has(word)) return 'modifier';
+  return 'specific';
+};
+
+// Validates anything that claims to be a thesaurus export
+export const parseThesaurusOverrides = (value: unknown): ThesaurusOverrides => {
+  if (!value || typeof value !== 'object') throw new Error("Arquivo de dicionário inválido.");
+  const data = value as Partial<Record<keyof ThesaurusOverrides, unknown>>;
+  const isRecord = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+
+  const synonyms: Record<string, string[]> = {};
+  if (isRecord(data.synonyms)) {
+    Object.entries(data.synonyms).forEach(([canonical, variants]) => {
+      if (Array.isArray(variants)) synonyms[canonical] = variants.filter((v): v is string => typeof v === 'string');
+    });
+  }
+
+  const abbreviations: Record<string, string> = {};
+  if (isRecord(data.abbreviations)) {
+    Object.entries(data.abbreviations).forEach(([from, to]) => {
+      if (typeof to === 'string') abbreviations[from] = to;
+    });
+  }
+
+  const classes: WordClass[] = ['stop', 'category', 'modifier', 'specific'];
+  const wordClasses: Record<string, WordClass> = {};
+  if (isRecord(data.wordClasses)) {
+    Object.entries(data.wordClasses).forEach(([word, wordClass]) => {
+      if (classes.includes(wordClass as WordClass)) wordClasses[word] = wordClass as WordClass;
+    });
+  }
+
+  return { synonyms, abbreviations, wordClasses };
+};
+
+export const loadThesaurusOverrides = (): ThesaurusOverrides => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseThesaurusOverrides(JSON.parse(stored)) : EMPTY_OVERRIDES;
+  } catch (error) {
+    console.error("Thesaurus load failed:", error);
+    return EMPTY_OVERRIDES;
+  }
+};
+
+export const saveThesaurusOverrides = (overrides: ThesaurusOverrides) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides));
+  } catch (error) {
+    console.error("Thesaurus save failed:", error);
+  }
+};
+
+export const exportThesaurusOverrides = (overrides: ThesaurusOverrides): Blob => {
+  return new Blob([JSON.stringify(overrides, null, 2)], { type: 'application/json' });
+};
+
+export const importThesaurusOverrides = async (file: File): Promise<ThesaurusOverrides> => {
+  return parseThesaurusOverrides(JSON.parse(await file.text()));
+};
@@ -0,0 +1,136 @@
+// Reads the cell text of every sheet in an .xlsx file. Uses the browser's
+// DecompressionStream for deflated ZIP entries and DOMParser for the XML.
+
+export interface XlsxSheetData {
+  name: string;
+  rows: string[][];
+}
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Lists the entries of a ZIP archive from its central directory and returns
+ * a reader for them. Only stored and deflated entries are supported, which
+ * covers every XLSX writer in practice.
+ */
+export const openZip = (buffer: ArrayBuffer) => {
+  const view = new DataView(buffer);
+  let end = -1;
+  // The end-of-central-directory record sits in the last 64 KB (comment included)
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054B50) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new Error("Not a ZIP file");
+
+  const decoder = new TextDecoder();
+  const entries = new Map<string, { method: number; size: number; offset: number }>();
+  const count = view.getUint16(end + 10, true);
+  let at = view.getUint32(end + 16, true);
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(at, true) !== 0x02014B50) throw new Error("Corrupt ZIP directory");
+    const nameLength = view.getUint16(at + 28, true);
+    const name = decoder.decode(new Uint8Array(buffer, at + 46, nameLength));
+    entries.set(name, {
+      method: view.getUint16(at + 10, true),
+      size: view.getUint32(at + 20, true),
+      offset: view.getUint32(at + 42, true),
+    });
+    at += 46 + nameLength + view.getUint16(at + 30, true) + view.getUint16(at + 32, true);
+  }
+
+  const read = async (name: string): Promise<string | null> => {
+    const entry = entries.get(name);
+    if (!entry) return null;
+    const start = entry.offset + 30 + view.getUint16(entry.offset + 26, true) + view.getUint16(entry.offset + 28, true);
+    const raw = new Uint8Array(buffer, start, entry.size);
+    if (entry.method === 0) return decoder.decode(raw);
+    if (entry.method === 8) return decoder.decode(await inflateRaw(raw));
+    throw new Error(`Unsupported ZIP compression method ${entry.method}`);
+  };
+
+  return { names: () => Array.from(entries.keys()), read };
+};
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, 'application/xml');
+
+// Elements by local name, whatever namespace prefix the writer used
+const elements = (parent: Document | Element, name: string) => Array.from(parent.getElementsByTagNameNS('*', name));
+
+// Text of a shared or inline string, joining rich-text runs and skipping phonetic hints
+const stringText = (item: Element) =>
+  elements(item, 't')
+    .filter(t => t.parentElement?.localName !== 'rPh')
+    .map(t => t.textContent || '')
+    .join('');
+
+// "C12" -> 2
+const columnIndex = (ref: string) => {
+  const letters = ref.replace(/[^A-Z]/gi, '').toUpperCase();
+  let index = 0;
+  for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64);
+  return index - 1;
+};
+
+// Resolves a relationship target against xl/
+const partPath = (target: string) => (target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`);
+
+const sheetRows = (doc: Document, sharedStrings: string[]): string[][] => {
+  const rows: string[][] = [];
+  elements(doc, 'row').forEach(rowEl => {
+    const rowNumber = parseInt(rowEl.getAttribute('r') || '', 10);
+    const row: string[] = [];
+    elements(rowEl, 'c').forEach(cell => {
+      const ref = cell.getAttribute('r');
+      const col = ref ? columnIndex(ref) : row.length;
+      const type = cell.getAttribute('t');
+      const v = elements(cell, 'v')[0]?.textContent ?? '';
+      let value: string;
+      if (type === 's') value = sharedStrings[parseInt(v, 10)] ?? '';
+      else if (type === 'inlineStr') value = stringText(cell);
+      else if (type === 'b') value = v === '1' ? 'VERDADEIRO' : 'FALSO';
+      else value = v;
+      while (row.length < col) row.push('');
+      row[col] = value.trim();
+    });
+    // Keep empty rows in place so row numbers match the spreadsheet
+    const index = isNaN(rowNumber) ? rows.length : rowNumber - 1;
+    while (rows.length < index) rows.push([]);
+    rows[index] = row;
+  });
+  return rows;
+};
+
+export const readXlsx = async (buffer: ArrayBuffer): Promise<XlsxSheetData[]> => {
+  const zip = openZip(buffer);
+  const workbookXml = await zip.read('xl/workbook.xml');
+  if (!workbookXml) throw new Error("Missing xl/workbook.xml");
+
+  const relsXml = await zip.read('xl/_rels/workbook.xml.rels');
+  const targets = new Map<string, string>();
+  if (relsXml) {
+    elements(parseXml(relsXml), 'Relationship').forEach(rel => {
+      targets.set(rel.getAttribute('Id') || '', partPath(rel.getAttribute('Target') || ''));
+    });
+  }
+
+  const sharedXml = await zip.read('xl/sharedStrings.xml');
+  const sharedStrings = sharedXml ? elements(parseXml(sharedXml), 'si').map(stringText) : [];
+
+  const sheets: XlsxSheetData[] = [];
+  const sheetEls = elements(parseXml(workbookXml), 'sheet');
+  for (let i = 0; i < sheetEls.length; i++) {
+    const sheet = sheetEls[i];
+    const relId = sheet.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id') || sheet.getAttribute('r:id') || '';
+    const path = targets.get(relId) || `xl/worksheets/sheet${i + 1}.xml`;
+    const xml = await zip.read(path);
+    if (!xml) continue;
+    sheets.push({ name: sheet.getAttribute('name') || `Planilha ${i + 1}`, rows: sheetRows(parseXml(xml), sharedStrings) });
+  }
+  return sheets;
+};
@@ -1,12 +1,18 @@
 
+import type { ScoringProfile } from './services/scoringProfile';
+import type { ThesaurusOverrides } from './services/thesaurusService';
+
 // Generic product type since columns are dynamic
 // Testing file system access
 export interface Product {
-  [key: string]: string | number | Record<string, string> | null | undefined;
+  [key: string]: string | number | string[] | Record<string, string> | null | undefined;
   id: string; // Generated ID
   _raw: Record<string, string>; // Original raw values
 }
 
+// Row-level data problems found while mapping a catalog row
+export type ProductDataIssue = 'missing_price' | 'invalid_price' | 'zero_price' | 'empty_title' | 'missing_code';
+
 // Mapped product with normalized fields for UI
 export interface MappedProduct extends Product {
   title: string;
@@ -17,9 +23,36 @@ export interface MappedProduct extends Product {
   description: string;
   brand: string;
   supplier: string;
+  unit: string;          // Sales unit (UN, CX, PCT...), empty when the sheet has none
+  stock: number | null;  // null when the sheet has no stock column
+  sourceId: string;   // Catalog source the row was loaded from
+  sourceName: string;
+  line: number;        // Line of the source CSV the row starts on
+  row: number;         // Spreadsheet row, counting skipped records and not shifted by multi-line cells
+  dataIssues: ProductDataIssue[];
   matchScore?: number; // Added to track how well this product matched the search term
 }
 
+// MappedProduct fields that can be read from a catalog column
+export type MappableField = 'title' | 'code' | 'price' | 'brand' | 'supplier' | 'category' | 'description' | 'unit' | 'stock';
+
+// Field -> CSV header it is read from. Unassigned fields use their defaults.
+export type ColumnMapping = Partial<Record<MappableField, string>>;
+
+export type CatalogSourceKind = 'url' | 'sheet' | 'file';
+
+// A supplier price list the catalog is loaded from
+export interface CatalogSource {
+  id: string;
+  name: string;
+  kind: CatalogSourceKind;
+  location: string;  // CSV URL, published sheet ID or local file name
+  gid?: string;      // Sheet tab, when the link pointed at a tab other than the first
+  content?: string;  // CSV text of a local file, kept so it reloads with the app
+  enabled: boolean;
+  columnMapping?: ColumnMapping; // Saved by the mapping wizard; replaces header guessing
+}
+
 export interface SearchIntent {
   keywords: string[];
   minPrice?: number;
@@ -28,11 +61,34 @@ export interface SearchIntent {
   sentiment?: string;
 }
 
+// Which parser turned a requested line into an item ('catalog': added from the catalog search)
+export type ExtractionSource = 'ai' | 'local' | 'file' | 'catalog';
+
+// One requested line, before matching
+export interface ExtractedItem {
+  name: string;
+  quantity: number;
+  source?: ExtractionSource;
+  line?: number;             // 1-based line of the pasted text it came from
+}
+
 export interface BulkSearchResult {
   term: string;
   originalTerm: string; // The raw input term
   products: MappedProduct[];
   detectedQuantity: number; // Quantity detected from input string
+  learnedProductId?: string; // Product auto-selected from a remembered manual choice
+  extractedBy?: ExtractionSource;
+  autoSelectScore?: number; // Threshold of the scoring profile the line was matched with
+  scoredWith?: ScoringContext;
+}
+
+// What a line's products were scored against, so the scores can still be
+// explained after the profile or the dictionary is edited
+export interface ScoringContext {
+  query: string;              // Text the products were scored against
+  profile: ScoringProfile;
+  thesaurus: ThesaurusOverrides;
 }
 
 // termIndex -> { productId: quantity }